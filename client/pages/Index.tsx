@@ -1,5 +1,14 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { useDropzone } from "react-dropzone";
+import { useQuery } from "@tanstack/react-query";
+import {
+  GlossarySummary,
+  LanguagesResponse,
+  OcrPageReport,
+  TranslationRequest,
+  TranslationJobStatus,
+  TranslationMemoryReport,
+} from "@shared/api";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -9,6 +18,15 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Upload,
   FileText,
@@ -19,6 +37,7 @@ import {
   Zap,
   Shield,
   Globe,
+  X,
 } from "lucide-react";
 
 type TranslationStatus =
@@ -32,87 +51,350 @@ interface TranslationState {
   status: TranslationStatus;
   fileName?: string;
   progress: number;
+  /** Human-readable description of the current pipeline stage */
+  stage?: string;
+  /** Segments reused from the translation memory */
+  memory?: TranslationMemoryReport;
+  /** Scanned pages whose text was recognized with OCR */
+  ocrPages?: OcrPageReport[];
   downloadUrl?: string;
   error?: string;
 }
 
+// Share of the progress bar given to each pipeline stage
+const STAGE_WEIGHTS = { extracting: 0.15, translating: 0.7, rendering: 0.15 };
+
+// OCR results below this confidence are worth proofreading
+const LOW_OCR_CONFIDENCE = 80;
+
+// Helper function to describe which pages were read with OCR, pointing out
+// the ones the engine was unsure about
+function getOcrSummary(ocrPages: OcrPageReport[]): string {
+  const count =
+    ocrPages.length === 1
+      ? "1 scanned page"
+      : `${ocrPages.length} scanned pages`;
+  const uncertain = ocrPages.filter(
+    (page) => page.confidence < LOW_OCR_CONFIDENCE,
+  );
+  if (uncertain.length === 0) {
+    return `Text on ${count} was recognized with OCR.`;
+  }
+
+  const pages = uncertain
+    .map((page) => `${page.pageNumber} (${Math.round(page.confidence)}%)`)
+    .join(", ");
+  const label = uncertain.length === 1 ? "page" : "pages";
+  return `Text on ${count} was recognized with OCR. Please proofread ${label} ${pages}, where recognition was uncertain.`;
+}
+
+// Helper function to read the OCR confidence of each scanned page from the
+// X-OCR-Confidence header, written as "pageNumber=confidence, ..."
+function parseOcrHeader(header: string | null): OcrPageReport[] | undefined {
+  const ocrPages = (header ?? "")
+    .split(",")
+    .map((entry) => entry.trim().split("="))
+    .filter(([pageNumber, confidence]) => pageNumber && confidence)
+    .map(([pageNumber, confidence]) => ({
+      pageNumber: Number(pageNumber),
+      confidence: Number(confidence),
+    }));
+  return ocrPages.length > 0 ? ocrPages : undefined;
+}
+
+// Helper function to turn a job status into a progress percentage
+function getJobProgress({ state, progress }: TranslationJobStatus): number {
+  const ratio = (done: number, total: number) =>
+    total > 0 ? Math.min(done / total, 1) : 0;
+  const extracted = ratio(progress.pagesExtracted, progress.pageCount);
+  const translated = ratio(progress.chunksTranslated, progress.chunkCount);
+  const rendered = ratio(progress.pagesRendered, progress.pageCount);
+
+  switch (state) {
+    case "queued":
+      return 0;
+    case "extracting":
+      return STAGE_WEIGHTS.extracting * extracted * 100;
+    case "translating":
+      return (
+        (STAGE_WEIGHTS.extracting + STAGE_WEIGHTS.translating * translated) *
+        100
+      );
+    case "rendering":
+      return (
+        (STAGE_WEIGHTS.extracting +
+          STAGE_WEIGHTS.translating +
+          STAGE_WEIGHTS.rendering * rendered) *
+        100
+      );
+    default:
+      return 100;
+  }
+}
+
+// Helper function to describe what the server is currently doing
+function getJobStage({ state, progress }: TranslationJobStatus): string {
+  switch (state) {
+    case "queued":
+      return "Waiting to start...";
+    case "extracting":
+      return progress.pageCount > 0
+        ? `Reading page ${progress.pagesExtracted} of ${progress.pageCount}...`
+        : "Reading document...";
+    case "translating":
+      return progress.chunkCount > 0
+        ? `Translating section ${progress.chunksTranslated} of ${progress.chunkCount}...`
+        : "Translating...";
+    case "rendering":
+      return progress.pagesRendered > 0
+        ? `Building translated PDF (${progress.pagesRendered} pages done)...`
+        : "Building translated PDF...";
+    default:
+      return "Finishing up...";
+  }
+}
+
+// Helper function to read the error message from a failed response
+async function readErrorMessage(response: Response): Promise<string> {
+  // Check content type to determine how to read the response
+  const contentType = response.headers.get("content-type");
+  let errorMessage = "Translation failed";
+
+  try {
+    if (contentType && contentType.includes("application/json")) {
+      const errorData = await response.json();
+      errorMessage = errorData.error || errorMessage;
+    } else {
+      // If it's not JSON, just use the status text
+      errorMessage = response.statusText || errorMessage;
+    }
+  } catch (parseError) {
+    // If we can't parse the error response, use a generic message
+    errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  }
+
+  return errorMessage;
+}
+
+// Helper function to follow a job's progress events until it finishes
+// or `signal` is aborted
+function watchJob(
+  jobId: string,
+  onProgress: (status: TranslationJobStatus) => void,
+  signal: AbortSignal,
+): Promise<TranslationJobStatus> {
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/jobs/${jobId}/events`);
+    const finish = (event: MessageEvent) => {
+      events.close();
+      resolve(JSON.parse(event.data));
+    };
+
+    events.addEventListener("progress", (event) =>
+      onProgress(JSON.parse((event as MessageEvent).data)),
+    );
+    events.addEventListener("done", finish);
+    events.addEventListener("failed", finish);
+    events.addEventListener("cancelled", finish);
+    events.onerror = () => {
+      events.close();
+      reject(new Error("Lost connection to the translation server"));
+    };
+    signal.addEventListener("abort", () => {
+      events.close();
+      reject(signal.reason);
+    });
+  });
+}
+
 export default function Index() {
   const [translation, setTranslation] = useState<TranslationState>({
     status: "idle",
     progress: 0,
   });
+  const [targetLanguage, setTargetLanguage] = useState("fr");
+  const [selectedGlossaryId, setSelectedGlossaryId] = useState("none");
+  const [formality, setFormality] = useState<"default" | "more" | "less">(
+    "default",
+  );
+  const [outputMode, setOutputMode] =
+    useState<TranslationRequest["outputMode"]>("translated");
+  const [useMemory, setUseMemory] = useState(true);
+  // The running translation, so that it can be cancelled
+  const activeJob = useRef<{ controller: AbortController; jobId?: string }>();
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
+  const { data: languages } = useQuery({
+    queryKey: ["languages"],
+    queryFn: async () => {
+      const response = await fetch("/api/languages");
+      if (!response.ok) throw new Error("Could not load languages");
+      return (await response.json()) as LanguagesResponse;
+    },
+    staleTime: Infinity,
+  });
 
-    setTranslation({
-      status: "uploading",
-      fileName: file.name,
-      progress: 25,
-    });
+  const { data: glossaries } = useQuery({
+    queryKey: ["glossaries"],
+    queryFn: async () => {
+      const response = await fetch("/api/glossaries");
+      if (!response.ok) throw new Error("Could not load glossaries");
+      return (await response.json()) as GlossarySummary[];
+    },
+  });
+
+  // Only glossaries into the selected language can be used
+  const targetBase = targetLanguage.split("-")[0].toLowerCase();
+  const availableGlossaries = (glossaries ?? []).filter(
+    (glossary) =>
+      glossary.targetLanguage.split("-")[0].toLowerCase() === targetBase,
+  );
+  const glossaryId = availableGlossaries.some(
+    (glossary) => glossary.id === selectedGlossaryId,
+  )
+    ? selectedGlossaryId
+    : "none";
+
+  const targetLanguageOption = languages?.target.find(
+    (language) => language.code === targetLanguage,
+  );
+  const targetLanguageName = targetLanguageOption?.name ?? "French";
+  // Providers that don't say whether a language has formality get the
+  // lenient "prefer_" variants, which never fail
+  const supportsFormality = targetLanguageOption?.supportsFormality;
+
+  const onDrop = useCallback(
+    async (acceptedFiles: File[]) => {
+      const file = acceptedFiles[0];
+      if (!file) return;
 
-    try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setTranslation((prev) => ({
-          ...prev,
-          progress: Math.min(prev.progress + 15, 85),
-        }));
-      }, 500);
-
-      const formData = new FormData();
-      formData.append("pdf", file);
-
-      const response = await fetch("/api/translate-pdf", {
-        method: "POST",
-        body: await file.arrayBuffer(),
-        headers: {
-          "Content-Type": "application/pdf",
-        },
+      setTranslation({
+        status: "uploading",
+        fileName: file.name,
+        progress: 0,
+        stage: "Uploading...",
       });
 
-      clearInterval(progressInterval);
+      const controller = new AbortController();
+      const active: { controller: AbortController; jobId?: string } = {
+        controller,
+      };
+      activeJob.current = active;
+
+      try {
+        // Start a background job, then follow its progress events
+        const params = new URLSearchParams({
+          targetLanguage,
+          outputMode,
+          useMemory: String(useMemory),
+        });
+        if (glossaryId !== "none") {
+          params.set("glossaryId", glossaryId);
+        }
+        if (formality !== "default" && supportsFormality !== false) {
+          params.set(
+            "formality",
+            supportsFormality ? formality : `prefer_${formality}`,
+          );
+        }
+        const request = {
+          method: "POST",
+          body: await file.arrayBuffer(),
+          headers: {
+            "Content-Type": "application/pdf",
+          },
+          signal: controller.signal,
+        };
+        const response = await fetch(`/api/jobs?${params}`, request);
+
+        // Serverless deployments can't run background jobs, so the document
+        // is translated in a single request, without progress updates
+        if (response.status === 501) {
+          setTranslation({
+            status: "processing",
+            fileName: file.name,
+            progress: 50,
+            stage: "Translating...",
+          });
+          const result = await fetch(`/api/translate-pdf?${params}`, request);
+          if (!result.ok) {
+            throw new Error(await readErrorMessage(result));
+          }
+
+          setTranslation({
+            status: "completed",
+            fileName: file.name,
+            progress: 100,
+            downloadUrl: URL.createObjectURL(await result.blob()),
+            ocrPages: parseOcrHeader(result.headers.get("X-OCR-Confidence")),
+          });
+          return;
+        }
+
+        if (!response.ok) {
+          throw new Error(await readErrorMessage(response));
+        }
+
+        // The job ID is known from the headers on, so that cancelling while
+        // the body is read still cancels the job on the server
+        active.jobId = response.headers.get("Location")?.split("/").pop();
+        const job: TranslationJobStatus = await response.json();
+
+        const finished = await watchJob(
+          job.jobId,
+          (status) => {
+            setTranslation({
+              status: "processing",
+              fileName: file.name,
+              progress: getJobProgress(status),
+              stage: getJobStage(status),
+            });
+          },
+          controller.signal,
+        );
+
+        if (finished.state !== "done") {
+          throw new Error(finished.error || "Translation failed");
+        }
+
+        const result = await fetch(`/api/jobs/${job.jobId}/result`, {
+          signal: controller.signal,
+        });
+        if (!result.ok) {
+          throw new Error(await readErrorMessage(result));
+        }
 
-      if (response.ok) {
-        const blob = await response.blob();
+        const blob = await result.blob();
         const downloadUrl = URL.createObjectURL(blob);
 
         setTranslation({
           status: "completed",
           fileName: file.name,
           progress: 100,
+          memory: finished.memory,
+          ocrPages: finished.ocrPages,
           downloadUrl,
         });
-      } else {
-        // Check content type to determine how to read the response
-        const contentType = response.headers.get("content-type");
-        let errorMessage = "Translation failed";
-
-        try {
-          if (contentType && contentType.includes("application/json")) {
-            const errorData = await response.json();
-            errorMessage = errorData.error || errorMessage;
-          } else {
-            // If it's not JSON, just use the status text
-            errorMessage = response.statusText || errorMessage;
-          }
-        } catch (parseError) {
-          // If we can't parse the error response, use a generic message
-          errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        }
+      } catch (error) {
+        // A cancelled translation goes straight back to the upload screen
+        if (controller.signal.aborted) return;
 
-        throw new Error(errorMessage);
+        setTranslation({
+          status: "error",
+          fileName: file.name,
+          progress: 0,
+          error: error instanceof Error ? error.message : "Translation failed",
+        });
       }
-    } catch (error) {
-      setTranslation({
-        status: "error",
-        fileName: file.name,
-        progress: 0,
-        error: error instanceof Error ? error.message : "Translation failed",
-      });
-    }
-  }, []);
+    },
+    [
+      targetLanguage,
+      glossaryId,
+      formality,
+      supportsFormality,
+      outputMode,
+      useMemory,
+    ],
+  );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -124,6 +406,21 @@ export default function Index() {
       translation.status === "uploading" || translation.status === "processing",
   });
 
+  const cancelTranslation = () => {
+    const job = activeJob.current;
+    if (!job) return;
+
+    job.controller.abort();
+    if (job.jobId) {
+      // Stop the server from translating any further
+      fetch(`/api/jobs/${job.jobId}/cancel`, { method: "POST" }).catch(
+        () => {},
+      );
+    }
+    activeJob.current = undefined;
+    setTranslation({ status: "idle", progress: 0 });
+  };
+
   const resetTranslation = () => {
     setTranslation({ status: "idle", progress: 0 });
   };
@@ -170,14 +467,15 @@ export default function Index() {
         {/* Hero Section */}
         <div className="text-center mb-16">
           <h2 className="text-5xl font-bold text-slate-900 mb-6">
-            Translate PDFs to French
+            Translate PDFs to Any Language
             <span className="block text-3xl bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent mt-2">
               Instantly & Accurately
             </span>
           </h2>
           <p className="text-xl text-slate-600 max-w-2xl mx-auto mb-8">
             Upload your PDF document and get a professionally translated version
-            in French, with layout, headers, footers, and hyperlinks preserved.
+            in your language, with layout, headers, footers, and hyperlinks
+            preserved.
           </p>
 
           {/* Features */}
@@ -213,6 +511,128 @@ export default function Index() {
             </CardHeader>
 
             <CardContent className="space-y-6">
+              {/* Language Selection */}
+              {translation.status === "idle" && languages && (
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="target-language" className="text-slate-700">
+                    Translate to
+                  </Label>
+                  <Select
+                    value={targetLanguage}
+                    onValueChange={setTargetLanguage}
+                  >
+                    <SelectTrigger id="target-language" className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {languages.target.map((language) => (
+                        <SelectItem key={language.code} value={language.code}>
+                          {language.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Formality Selection */}
+              {translation.status === "idle" &&
+                languages &&
+                supportsFormality !== false && (
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="formality" className="text-slate-700">
+                      Tone
+                    </Label>
+                    <Select
+                      value={formality}
+                      onValueChange={(value) =>
+                        setFormality(value as typeof formality)
+                      }
+                    >
+                      <SelectTrigger id="formality" className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Default</SelectItem>
+                        <SelectItem value="more">Formal</SelectItem>
+                        <SelectItem value="less">Informal</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+              {/* Output Mode Selection */}
+              {translation.status === "idle" && (
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="output-mode" className="text-slate-700">
+                    Output
+                  </Label>
+                  <Select
+                    value={outputMode}
+                    onValueChange={(value) =>
+                      setOutputMode(value as typeof outputMode)
+                    }
+                  >
+                    <SelectTrigger id="output-mode" className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="translated">
+                        Translation only
+                      </SelectItem>
+                      <SelectItem value="side-by-side">
+                        Bilingual, side by side
+                      </SelectItem>
+                      <SelectItem value="interleaved">
+                        Bilingual, interleaved
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Translation Memory */}
+              {translation.status === "idle" && (
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="use-memory" className="text-slate-700">
+                    Remember translated sentences
+                  </Label>
+                  <Switch
+                    id="use-memory"
+                    checked={useMemory}
+                    onCheckedChange={setUseMemory}
+                  />
+                </div>
+              )}
+
+              {/* Glossary Selection */}
+              {translation.status === "idle" &&
+                availableGlossaries.length > 0 && (
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="glossary" className="text-slate-700">
+                      Glossary
+                    </Label>
+                    <Select
+                      value={glossaryId}
+                      onValueChange={setSelectedGlossaryId}
+                    >
+                      <SelectTrigger id="glossary" className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No glossary</SelectItem>
+                        {availableGlossaries.map((glossary) => (
+                          <SelectItem key={glossary.id} value={glossary.id}>
+                            {glossary.team
+                              ? `${glossary.name} (${glossary.team})`
+                              : glossary.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
               {/* Upload Area */}
               {translation.status === "idle" && (
                 <div
@@ -251,9 +671,7 @@ export default function Index() {
                         {translation.fileName}
                       </p>
                       <p className="text-sm text-slate-500">
-                        {translation.status === "uploading"
-                          ? "Uploading and processing..."
-                          : "Translating..."}
+                        {translation.stage}
                       </p>
                     </div>
                   </div>
@@ -261,6 +679,14 @@ export default function Index() {
                   <p className="text-sm text-slate-600">
                     This may take a few moments depending on document size
                   </p>
+                  <Button
+                    variant="outline"
+                    onClick={cancelTranslation}
+                    className="border-purple-200 hover:bg-purple-50"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
                 </div>
               )}
 
@@ -273,8 +699,21 @@ export default function Index() {
                       Translation Complete!
                     </h3>
                     <p className="text-slate-600 mb-4">
-                      Your PDF has been successfully translated to French.
+                      Your PDF has been successfully translated to{" "}
+                      {targetLanguageName}.
                     </p>
+                    {translation.memory?.exactMatches > 0 && (
+                      <p className="text-sm text-slate-500 mb-4">
+                        {translation.memory.exactMatches} of{" "}
+                        {translation.memory.segmentCount} passages reused from
+                        earlier translations
+                      </p>
+                    )}
+                    {translation.ocrPages?.length > 0 && (
+                      <p className="text-sm text-slate-500 mb-4">
+                        {getOcrSummary(translation.ocrPages)}
+                      </p>
+                    )}
                     <div className="flex flex-col sm:flex-row gap-3 justify-center">
                       <Button
                         onClick={downloadFile}
@@ -359,8 +798,10 @@ export default function Index() {
       <footer className="border-t border-purple-100 bg-white/60 backdrop-blur-sm mt-20">
         <div className="container mx-auto px-4 py-8 text-center">
           <p className="text-slate-600">
-            © 2024 PDFTranslate. Powered by DeepL API. Your documents are
-            processed securely and not stored.
+            © 2024 PDFTranslate. Powered by DeepL API. Your PDF files are
+            processed securely and not stored. Translated sentences are kept in
+            a translation memory to speed up later translations, unless you turn
+            it off.
           </p>
         </div>
       </footer>
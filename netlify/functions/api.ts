@@ -2,4 +2,5 @@ import serverless from "serverless-http";
 
 import { createServer } from "../../server";
 
-export const handler = serverless(createServer());
+// Functions stop once they respond, so background jobs can't run here
+export const handler = serverless(createServer({ jobs: false }));
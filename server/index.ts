@@ -4,11 +4,38 @@ import multer from "multer";
 import { config } from "dotenv";
 import { handleDemo } from "./routes/demo";
 import { handleTranslatePdf } from "./routes/translate-pdf";
+import { handleLanguages } from "./routes/languages";
+import { handleUsage } from "./routes/usage";
+import { handleClearMemory, handleMemoryStats } from "./routes/memory";
+import {
+  handleCreateGlossary,
+  handleDeleteGlossary,
+  handleGetGlossary,
+  handleListGlossaries,
+  handleUpdateGlossary,
+} from "./routes/glossaries";
+import {
+  handleCreateJob,
+  handleGetJob,
+  handleGetJobResult,
+  handleJobEvents,
+  handleCancelJob,
+  handleJobsUnavailable,
+} from "./routes/jobs";
 
 // Load environment variables
 config();
 
-export function createServer() {
+export interface ServerOptions {
+  /**
+   * Serve asynchronous translation jobs, true by default. Serverless
+   * functions can't: their work stops once a response is sent, and each
+   * request may reach another instance without the job.
+   */
+  jobs?: boolean;
+}
+
+export function createServer({ jobs = true }: ServerOptions = {}) {
   const app = express();
 
   // Configure multer for file uploads
@@ -30,6 +57,12 @@ export function createServer() {
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ extended: true, limit: "50mb" }));
   app.use(express.raw({ type: "application/pdf", limit: "50mb" }));
+  app.use(
+    express.text({
+      type: ["text/csv", "text/tab-separated-values"],
+      limit: "5mb",
+    }),
+  );
 
   // Example API routes
   app.get("/api/ping", (_req, res) => {
@@ -38,8 +71,37 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
-  // PDF Translation endpoint
-  app.post("/api/translate-pdf", handleTranslatePdf);
+  // Languages supported by the translation provider
+  app.get("/api/languages", handleLanguages);
+
+  // Characters translated so far, and the quota when the provider has one
+  app.get("/api/usage", handleUsage);
+
+  // Translation memory hit-rate stats, and a way to forget everything
+  app.get("/api/memory", handleMemoryStats);
+  app.delete("/api/memory", handleClearMemory);
+
+  // Glossaries (JSON, or CSV/TSV import and export)
+  app.get("/api/glossaries", handleListGlossaries);
+  app.post("/api/glossaries", handleCreateGlossary);
+  app.get("/api/glossaries/:id", handleGetGlossary);
+  app.put("/api/glossaries/:id", handleUpdateGlossary);
+  app.delete("/api/glossaries/:id", handleDeleteGlossary);
+
+  // PDF Translation endpoint (raw application/pdf body or multipart "pdf" field)
+  app.post("/api/translate-pdf", upload.single("pdf"), handleTranslatePdf);
+
+  // Asynchronous translation jobs: create, poll or stream status, download
+  // the result or cancel
+  if (jobs) {
+    app.post("/api/jobs", upload.single("pdf"), handleCreateJob);
+    app.get("/api/jobs/:id", handleGetJob);
+    app.get("/api/jobs/:id/events", handleJobEvents);
+    app.get("/api/jobs/:id/result", handleGetJobResult);
+    app.post("/api/jobs/:id/cancel", handleCancelJob);
+  } else {
+    app.use("/api/jobs", handleJobsUnavailable);
+  }
 
   return app;
 }
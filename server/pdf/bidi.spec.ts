@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { isRtlLanguage, textDirection, visualRuns, visualWords } from "./bidi";
+
+describe("visualRuns", () => {
+  it("should order runs from left to right and keep numbers in order", () => {
+    expect(visualRuns("שלום 2024 עולם", "rtl")).toEqual([
+      { text: " עולם", rtl: true },
+      { text: "2024", rtl: false },
+      { text: "שלום ", rtl: true },
+    ]);
+  });
+
+  it("should mirror brackets in right-to-left text", () => {
+    expect(visualRuns("(שלום)", "rtl")).toEqual([
+      { text: ")שלום(", rtl: true },
+    ]);
+  });
+
+  it("should leave left-to-right text alone", () => {
+    expect(visualRuns("Hello (world)")).toEqual([
+      { text: "Hello (world)", rtl: false },
+    ]);
+  });
+});
+
+describe("visualWords", () => {
+  it("should list words from left to right with embedded Latin in order", () => {
+    expect(visualWords("קובץ Adobe Acrobat חדש", "rtl")).toEqual([
+      "חדש",
+      "Adobe",
+      "Acrobat",
+      "קובץ",
+    ]);
+  });
+});
+
+describe("textDirection", () => {
+  it("should follow the first letter of the text", () => {
+    expect(textDirection("2024 שלום world")).toBe("rtl");
+    expect(textDirection("PDF שלום")).toBe("ltr");
+    expect(isRtlLanguage("he-IL")).toBe(true);
+    expect(isRtlLanguage("de")).toBe(false);
+  });
+});
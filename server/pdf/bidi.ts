@@ -0,0 +1,116 @@
+import bidiFactory from "bidi-js";
+
+const bidi = bidiFactory();
+
+export type TextDirection = "ltr" | "rtl";
+
+// Languages written right to left, by base language code
+const RTL_LANGUAGES = new Set([
+  "ar",
+  "ckb",
+  "dv",
+  "fa",
+  "he",
+  "iw",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+]);
+
+/**
+ * A stretch of a line in a single direction. Right-to-left runs keep their
+ * text in logical order, with brackets mirrored, so that fonts can shape it.
+ */
+export interface DirectionalRun {
+  text: string;
+  rtl: boolean;
+}
+
+/** Whether a language code such as "ar" or "he-IL" is written right to left */
+export function isRtlLanguage(language: string): boolean {
+  return RTL_LANGUAGES.has(language.toLowerCase().split("-")[0]);
+}
+
+/**
+ * Direction of a paragraph, from its first strongly directional character
+ * as the Unicode bidi algorithm does. Text without one reads left to right.
+ */
+export function textDirection(text: string): TextDirection {
+  const { paragraphs } = bidi.getEmbeddingLevels(text);
+  return paragraphs[0]?.level % 2 === 1 ? "rtl" : "ltr";
+}
+
+/**
+ * Split a line into runs of one direction with the Unicode bidi algorithm,
+ * and return them in visual order, from left to right. Numbers and Latin
+ * words within right-to-left text get runs of their own.
+ */
+export function visualRuns(
+  text: string,
+  direction?: TextDirection,
+): DirectionalRun[] {
+  const { levels } = bidi.getEmbeddingLevels(text, direction);
+  const mirrored = bidi.getMirroredCharactersMap(text, levels);
+
+  const runs: (DirectionalRun & { level: number })[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const character = mirrored.get(i) ?? text[i];
+    const run = runs[runs.length - 1];
+    if (run && run.level === levels[i]) {
+      run.text += character;
+    } else {
+      runs.push({
+        text: character,
+        level: levels[i],
+        rtl: levels[i] % 2 === 1,
+      });
+    }
+  }
+
+  // Reverse every sequence of runs at or above each level, from the highest
+  // level down to the lowest odd one
+  const highest = Math.max(0, ...runs.map((run) => run.level));
+  const lowestOdd = Math.min(
+    highest + 1,
+    ...runs.map((run) => run.level + ((run.level + 1) % 2)),
+  );
+  for (let level = highest; level >= lowestOdd; level--) {
+    let start = 0;
+    while (start < runs.length) {
+      if (runs[start].level < level) {
+        start++;
+        continue;
+      }
+      let end = start;
+      while (end < runs.length && runs[end].level >= level) end++;
+      runs.splice(start, end - start, ...runs.slice(start, end).reverse());
+      start = end;
+    }
+  }
+
+  return runs.map(({ text, rtl }) => ({ text, rtl }));
+}
+
+/**
+ * Split a line into its words in visual order, from left to right, so that
+ * justified lines can spread them out. Each word keeps its logical order.
+ */
+export function visualWords(text: string, direction?: TextDirection): string[] {
+  const embeddingLevels = bidi.getEmbeddingLevels(text, direction);
+  const order: number[] = bidi.getReorderedIndices(text, embeddingLevels);
+
+  const words: number[][] = [[]];
+  for (const index of order) {
+    if (/\s/.test(text[index])) {
+      if (words[words.length - 1].length > 0) words.push([]);
+    } else {
+      words[words.length - 1].push(index);
+    }
+  }
+
+  return words
+    .filter((word) => word.length > 0)
+    .map((word) => text.slice(Math.min(...word), Math.max(...word) + 1));
+}
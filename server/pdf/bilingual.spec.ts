@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { BilingualMode, renderBilingual } from "./bilingual";
+import { TextRun, extractPdfText } from "./extract";
+
+const paragraphs = [
+  {
+    source: "Confidential information may take many forms.",
+    target:
+      "Les informations confidentielles peuvent prendre plusieurs formes.",
+  },
+  {
+    source: "The recipient shall keep it secret.",
+    target: "Le destinataire doit la garder secrète.",
+  },
+];
+
+async function render(mode: BilingualMode, count = 1) {
+  const { pdfBytes } = await renderBilingual(
+    Array.from({ length: count }, () => paragraphs).flat(),
+    mode,
+    {
+      pageSize: [600, 800],
+      language: "fr",
+      header: "Bilingual Document",
+      footer: "Powered by DeepL",
+    },
+  );
+  return extractPdfText(pdfBytes);
+}
+
+function findRun(runs: TextRun[], text: string): TextRun {
+  return runs.find((run) => run.text.includes(text));
+}
+
+describe("renderBilingual", () => {
+  it("should put source and translation side by side on the same line", async () => {
+    const document = await render("side-by-side");
+    const { runs, width } = document.pages[0];
+
+    const source = findRun(runs, "The recipient");
+    const target = findRun(runs, "Le destinataire");
+    expect(source.x).toBeLessThan(width / 2);
+    expect(target.x).toBeGreaterThan(width / 2);
+    expect(target.y).toBeCloseTo(source.y);
+  });
+
+  it("should follow each source paragraph with its translation", async () => {
+    const document = await render("interleaved");
+    const { runs } = document.pages[0];
+
+    const lines = [
+      "Confidential information",
+      "Les informations",
+      "The recipient",
+      "Le destinataire",
+    ].map((text) => findRun(runs, text).y);
+    // Lines go down the page in this order
+    expect([...lines].sort((a, b) => b - a)).toEqual(lines);
+  });
+
+  it("should flow long documents onto more pages", async () => {
+    const document = await render("interleaved", 40);
+
+    expect(document.pageCount).toBeGreaterThan(1);
+    document.pages.forEach((page, index) => {
+      expect(page.text).toContain(`Page ${index + 1} of ${document.pageCount}`);
+    });
+  });
+});
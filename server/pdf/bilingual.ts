@@ -0,0 +1,145 @@
+import { PDFPage, RGB, rgb } from "pdf-lib";
+import { isRtlLanguage } from "./bidi";
+import { DrawnLine, LinkedParagraph } from "./links";
+import {
+  FONT_SIZE,
+  LINE_HEIGHT,
+  MARGIN,
+  PARAGRAPH_GAP,
+  ReflowOptions,
+  createFlowDocument,
+} from "./reflow";
+import { WrappedLine, drawWrappedLine, wrapText } from "./wrap";
+
+// Space between the source and target columns
+const GUTTER = 20;
+
+const SOURCE_COLOR = rgb(0, 0, 0);
+// Interleaved translations are set apart by a lighter colour
+const TARGET_COLOR = rgb(0.35, 0.35, 0.55);
+
+export type BilingualMode = "side-by-side" | "interleaved";
+
+type Row = [WrappedLine | undefined, WrappedLine | undefined];
+
+export interface BilingualParagraph extends LinkedParagraph {
+  source: string;
+  target: string;
+}
+
+/**
+ * Render source and translation together, paragraph by paragraph:
+ * "side-by-side" puts the source in a left column and the translation in a
+ * right one, the other way around for right-to-left languages, starting each
+ * pair on the same line; "interleaved" follows each source paragraph with
+ * its translation in a lighter colour.
+ *
+ * Pairs that fit on one page are never split across pages. Links of a
+ * paragraph are recreated over both its source and translated lines.
+ */
+export async function renderBilingual(
+  paragraphs: BilingualParagraph[],
+  mode: BilingualMode,
+  options: ReflowOptions,
+): Promise<{ pdfBytes: Uint8Array; pageCount: number }> {
+  const document = await createFlowDocument(
+    paragraphs.flatMap((paragraph) => [paragraph.source, paragraph.target]),
+    options,
+  );
+  const { font, bodyTop, bodyBottom } = document;
+  const bodyWidth = document.width - 2 * MARGIN;
+  const columnWidth =
+    mode === "side-by-side" ? (bodyWidth - GUTTER) / 2 : bodyWidth;
+
+  // Only the translation follows the target language's hyphenation rules
+  // and direction. Right-to-left translations go in the left column, so the
+  // pair reads from the right.
+  const rtl = isRtlLanguage(options.language);
+  const wrap = (text: string, target: boolean) =>
+    wrapText(text, {
+      font,
+      fontSize: FONT_SIZE,
+      maxWidth: columnWidth,
+      hyphenator: target ? options.hyphenator : undefined,
+      direction: target && rtl ? "rtl" : undefined,
+    });
+  const sourceX =
+    rtl && mode === "side-by-side" ? MARGIN + columnWidth + GUTTER : MARGIN;
+  const targetX =
+    mode === "side-by-side" && !rtl ? MARGIN + columnWidth + GUTTER : MARGIN;
+
+  const drawLine = (
+    drawn: DrawnLine[],
+    page: PDFPage,
+    line: WrappedLine | undefined,
+    x: number,
+    y: number,
+    color: RGB,
+  ) => {
+    if (!line) return;
+    const drawnLine = drawWrappedLine(page, line, {
+      x,
+      y,
+      font,
+      fontSize: FONT_SIZE,
+      maxWidth: columnWidth,
+      align: options.align,
+      color,
+    });
+    drawn.push({ page, ...drawnLine, y, fontSize: FONT_SIZE });
+  };
+
+  let page = document.addPage();
+  let y = bodyTop;
+
+  for (const paragraph of paragraphs) {
+    const source = wrap(paragraph.source, false);
+    const target = wrap(paragraph.target, true);
+
+    // Each row is one line on the page: a line of both columns side by
+    // side, or a line of either paragraph when interleaved
+    const rows: Row[] =
+      mode === "side-by-side"
+        ? Array.from(
+            { length: Math.max(source.length, target.length) },
+            (_, i): Row => [source[i], target[i]],
+          )
+        : [
+            ...source.map((line): Row => [line, undefined]),
+            ...target.map((line): Row => [undefined, line]),
+          ];
+
+    const height = (rows.length - 1) * LINE_HEIGHT;
+    const fitsOnPage = height <= bodyTop - bodyBottom;
+    if (y < bodyBottom || (fitsOnPage && y - height < bodyBottom)) {
+      page = document.addPage();
+      y = bodyTop;
+    }
+
+    const drawnSource: DrawnLine[] = [];
+    const drawnTarget: DrawnLine[] = [];
+    for (const [sourceLine, targetLine] of rows) {
+      if (y < bodyBottom) {
+        page = document.addPage();
+        y = bodyTop;
+      }
+
+      drawLine(drawnSource, page, sourceLine, sourceX, y, SOURCE_COLOR);
+      drawLine(
+        drawnTarget,
+        page,
+        targetLine,
+        targetX,
+        y,
+        mode === "side-by-side" ? SOURCE_COLOR : TARGET_COLOR,
+      );
+      y -= LINE_HEIGHT;
+    }
+
+    document.links.place(paragraph, drawnSource);
+    document.links.place(paragraph, drawnTarget);
+    y -= PARAGRAPH_GAP;
+  }
+
+  return document.finish();
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  PDFDocument,
+  PDFRawStream,
+  StandardFonts,
+  decodePDFRawStream,
+  rgb,
+} from "pdf-lib";
+import {
+  ShownText,
+  removePageText,
+  stripTextOperators,
+} from "./content-stream";
+import { extractPdfText } from "./extract";
+
+describe("stripTextOperators", () => {
+  it("should remove shown text and keep graphics", () => {
+    const { content, invisibleText } = stripTextOperators(
+      [
+        "q 0 0 1 rg 10 10 100 50 re f Q",
+        "BT /F1 12 Tf 20 30 Td (Hello \\(world\\) Tj) Tj",
+        "[(Kern) -120 (ed)] TJ 0 -14 Td (Next) ' ET",
+        "q 50 0 0 50 200 200 cm /Im1 Do Q",
+      ].join("\n"),
+    );
+
+    expect(content).toBe(
+      [
+        "q 0 0 1 rg 10 10 100 50 re f Q",
+        "BT /F1 12 Tf 20 30 Td 0 -14 Td ET",
+        "q 50 0 0 50 200 200 cm /Im1 Do Q",
+      ].join("\n"),
+    );
+    expect(invisibleText).toBe(false);
+  });
+
+  it("should notice text drawn with an invisible rendering mode", () => {
+    expect(
+      stripTextOperators("BT 3 Tr /F1 10 Tf (scanned) Tj ET").invisibleText,
+    ).toBe(true);
+    expect(
+      stripTextOperators("BT 3 Tr 0 Tr /F1 10 Tf (shown) Tj ET").invisibleText,
+    ).toBe(false);
+  });
+});
+
+describe("removePageText", () => {
+  it("should remove the text of a page and keep its drawings", async () => {
+    const source = await PDFDocument.create();
+    const font = await source.embedFont(StandardFonts.Helvetica);
+    const drawn = source.addPage([400, 500]);
+    drawn.drawRectangle({
+      x: 40,
+      y: 400,
+      width: 200,
+      height: 40,
+      color: rgb(0.9, 0.9, 1),
+    });
+    drawn.drawText("Quarterly report", { x: 50, y: 415, size: 14, font });
+
+    // Pages read from a file, like the ones being translated
+    const pdf = await PDFDocument.load(await source.save());
+    const page = pdf.getPage(0);
+
+    expect(removePageText(page)).toBe(true);
+
+    const document = await extractPdfText(await pdf.save());
+    expect(document.pages[0].blocks).toEqual([]);
+    const contents = page.node.Contents() as PDFRawStream;
+    const content = Buffer.from(decodePDFRawStream(contents).decode()).toString(
+      "latin1",
+    );
+    expect(content).toContain("200 40 l");
+    expect(content).not.toMatch(/\bTj\b/);
+  });
+
+  it("should only remove the text it is asked to, and tell its colour", async () => {
+    const source = await PDFDocument.create();
+    const font = await source.embedFont(StandardFonts.Helvetica);
+    const drawn = source.addPage([400, 500]);
+    drawn.drawText("Quarterly report", {
+      x: 50,
+      y: 415,
+      size: 14,
+      font,
+      color: rgb(0, 0, 1),
+    });
+    drawn.drawText("Page 1", { x: 50, y: 40, size: 10, font });
+
+    const pdf = await PDFDocument.load(await source.save());
+    let shown: ShownText[] = [];
+    const removed = removePageText(pdf.getPage(0), (texts) => {
+      shown = texts;
+      return texts.filter((text) => text.y > 100);
+    });
+
+    expect(removed).toBe(true);
+    expect(shown).toEqual([
+      { x: 50, y: 415, color: rgb(0, 0, 1) },
+      { x: 50, y: 40, color: rgb(0, 0, 0) },
+    ]);
+    const document = await extractPdfText(await pdf.save());
+    expect(document.pages[0].text).toBe("Page 1");
+  });
+});
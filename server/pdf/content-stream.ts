@@ -0,0 +1,454 @@
+import {
+  Color,
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  cmyk,
+  decodePDFRawStream,
+  grayscale,
+  rgb,
+} from "pdf-lib";
+
+// Operators that paint glyphs; everything else, text positioning included,
+// is kept so that graphics state stays the same
+const TEXT_SHOWING_OPERATORS = new Set(["Tj", "TJ", "'", '"']);
+// Text rendering modes that paint nothing, as used by OCR text layers
+const INVISIBLE_RENDER_MODES = new Set([3, 7]);
+// Colour spaces whose colours pdf-lib can draw, by their component count
+const DEVICE_COLOR_SPACES = new Map([
+  ["DeviceGray", 1],
+  ["DeviceRGB", 3],
+  ["DeviceCMYK", 4],
+  ["CalGray", 1],
+  ["CalRGB", 3],
+]);
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+// Transformation matrix [a, b, c, d, e, f], as in the cm operator
+type Matrix = number[];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Text painted by one text-showing operator of a page */
+export interface ShownText {
+  /**
+   * Start of the text's baseline in PDF user space. Text shown right after
+   * other text, without moving to a new position, is given that text's start.
+   */
+  x: number;
+  y: number;
+  /** Fill colour, unless it is in a colour space pdf-lib can't draw in */
+  color?: Color;
+}
+
+// A text-showing operator, spanning content[start, end) with its operands
+interface TextOperator {
+  start: number;
+  end: number;
+  text: ShownText;
+}
+
+// Graphics state that text inherits from where its content is drawn
+interface ContentState {
+  ctm: Matrix;
+  color?: Color;
+  /** Number of components of the fill colour space's colours */
+  components?: number;
+}
+
+const INITIAL_STATE: ContentState = { ctm: IDENTITY, color: grayscale(0) };
+
+/**
+ * Remove the text drawn by a content stream, keeping images, vector
+ * graphics and everything else. Content streams are given and returned as
+ * latin1 strings, one character per byte.
+ *
+ * `invisibleText` tells whether some of the removed text was invisible,
+ * meaning the text the reader sees is part of an image.
+ */
+export function stripTextOperators(content: string): {
+  content: string;
+  invisibleText: boolean;
+} {
+  const { operators, invisibleText } = scanContent(
+    content,
+    INITIAL_STATE,
+    () => undefined,
+  );
+  return { content: removeOperators(content, operators), invisibleText };
+}
+
+/**
+ * Remove text from a page, in its content streams and in the forms it
+ * draws, so that a translation can be drawn over the remaining artwork.
+ * `select` is given the text shown by the page and returns the texts to
+ * remove, all of them by default. A form drawn several times loses the
+ * texts removed from any of its places.
+ *
+ * Returns false, leaving the page as is, when its text has to be masked
+ * instead: when a stream cannot be decoded, or when the visible text is an
+ * image under an invisible text layer.
+ */
+export function removePageText(
+  page: PDFPage,
+  select: (texts: ShownText[]) => ShownText[] = (texts) => texts,
+): boolean {
+  const { context } = page.doc;
+  // Decoded contents of the page, under undefined, and of the forms it draws
+  const contents = new Map<PDFRef | undefined, string>();
+  const found: (TextOperator & { ref?: PDFRef })[] = [];
+
+  // Page contents may be split over several streams, at token boundaries
+  const pageContents = page.node.Contents();
+  const pageStreams =
+    pageContents instanceof PDFArray
+      ? pageContents.asArray().map((ref) => context.lookup(ref))
+      : [pageContents];
+  const pageContent = decodeStreams(pageStreams);
+  if (pageContent === undefined) return false;
+  contents.set(undefined, pageContent);
+
+  // Scan a content stream and the forms it draws, each where it is drawn
+  const scan = (
+    ref: PDFRef | undefined,
+    state: ContentState,
+    resources: PDFDict | undefined,
+    drawing: PDFRef[],
+  ): boolean => {
+    const { operators, forms, invisibleText } = scanContent(
+      contents.get(ref),
+      state,
+      (name) => colorComponents(resources, name),
+    );
+    if (invisibleText) return false;
+    found.push(...operators.map((operator) => ({ ...operator, ref })));
+
+    const xObjects = resources?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    for (const form of forms) {
+      const formRef = xObjects?.get(PDFName.of(form.name));
+      // Forms drawing themselves would never end
+      if (!(formRef instanceof PDFRef) || drawing.includes(formRef)) continue;
+
+      const stream = context.lookup(formRef);
+      if (
+        !(stream instanceof PDFStream) ||
+        stream.dict.get(PDFName.of("Subtype")) !== PDFName.of("Form")
+      ) {
+        continue;
+      }
+      if (!contents.has(formRef)) {
+        const content = decodeStreams([stream]);
+        if (content === undefined) return false;
+        contents.set(formRef, content);
+      }
+
+      const matrix = stream.dict
+        .lookupMaybe(PDFName.of("Matrix"), PDFArray)
+        ?.asArray()
+        .map((value) => (value instanceof PDFNumber ? value.asNumber() : 0));
+      const drawn = scan(
+        formRef,
+        { ...form.state, ctm: multiply(matrix ?? IDENTITY, form.state.ctm) },
+        // Old forms use the resources of the page drawing them
+        stream.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? resources,
+        [...drawing, formRef],
+      );
+      if (!drawn) return false;
+    }
+
+    return true;
+  };
+  if (!scan(undefined, INITIAL_STATE, page.node.Resources(), [])) return false;
+
+  const removed = new Set(select(found.map((operator) => operator.text)));
+  // Forms keep their bounding box, resources and other entries
+  const encoding = ["Length", "Filter", "DecodeParms"].map(PDFName.of);
+  for (const [ref, content] of contents) {
+    const operators = found.filter(
+      (operator) => operator.ref === ref && removed.has(operator.text),
+    );
+    if (operators.length === 0) continue;
+
+    const stripped = context.flateStream(
+      toBytes(removeOperators(content, operators)),
+    );
+    if (!ref) {
+      page.node.set(PDFName.of("Contents"), context.register(stripped));
+      continue;
+    }
+    const stream = context.lookup(ref) as PDFStream;
+    for (const [key, value] of stream.dict.entries()) {
+      if (!encoding.includes(key)) stripped.dict.set(key, value);
+    }
+    context.assign(ref, stripped);
+  }
+
+  return true;
+}
+
+// Helper function to find the text-showing operators of a content stream,
+// with where they draw their text and in which colour, and the forms it
+// draws with the graphics state they inherit
+function scanContent(
+  content: string,
+  initialState: ContentState,
+  colorComponents: (colorSpace: string) => number | undefined,
+): {
+  operators: TextOperator[];
+  forms: { name: string; state: ContentState }[];
+  invisibleText: boolean;
+} {
+  const operators: TextOperator[] = [];
+  const forms: { name: string; state: ContentState }[] = [];
+  // Start of the current operator's operands
+  let operandStart = 0;
+  let operands: string[] = [];
+  let renderMode = 0;
+  let invisibleText = false;
+  let i = 0;
+
+  // Graphics state, saved by q and restored by Q
+  let state: ContentState = { components: 1, ...initialState };
+  const saved: ContentState[] = [];
+  // Text matrix, the matrix at the start of the current line, and leading
+  let textMatrix = IDENTITY;
+  let lineMatrix = IDENTITY;
+  let leading = 0;
+  // Text shown last, while the text position hasn't been set again
+  let lastShown: ShownText | undefined;
+
+  const numbers = () => operands.map(Number);
+  const moveTo = (matrix: Matrix) => {
+    textMatrix = lineMatrix = matrix;
+    lastShown = undefined;
+  };
+  const nextLine = (tx: number, ty: number) =>
+    moveTo(multiply([1, 0, 0, 1, tx, ty], lineMatrix));
+
+  while (i < content.length) {
+    const char = content[i];
+    const start = i;
+
+    if (WHITESPACE.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "%") {
+      while (i < content.length && !"\r\n".includes(content[i])) {
+        i++;
+      }
+      continue;
+    }
+
+    if (char === "(") {
+      i = skipLiteralString(content, i);
+    } else if (char === "<" && content[i + 1] !== "<") {
+      i = content.indexOf(">", i) + 1 || content.length;
+    } else if (char === "<" || char === ">") {
+      i += 2;
+    } else if ("[]{}".includes(char)) {
+      i++;
+    } else {
+      // Names, numbers, booleans and operators run to the next delimiter
+      i++;
+      while (
+        i < content.length &&
+        !WHITESPACE.test(content[i]) &&
+        !DELIMITER.test(content[i])
+      ) {
+        i++;
+      }
+    }
+
+    const token = content.slice(start, i);
+    if (
+      char === "/" ||
+      !/^[A-Za-z'"]/.test(token) ||
+      ["true", "false", "null"].includes(token)
+    ) {
+      operands.push(token);
+      continue;
+    }
+
+    // An operator ends the operands before it
+    if (token === "ID") {
+      // Inline image data is binary, it ends at the first "EI" on its own
+      const end = /\sEI(?=[\0\t\n\f\r ]|$)/g;
+      end.lastIndex = i + 1;
+      i = end.exec(content) ? end.lastIndex : content.length;
+    } else if (token === "q") {
+      saved.push(state);
+    } else if (token === "Q") {
+      state = saved.pop() ?? state;
+    } else if (token === "cm") {
+      state = { ...state, ctm: multiply(numbers().slice(-6), state.ctm) };
+    } else if (token === "g" || token === "rg" || token === "k") {
+      const components = { g: 1, rg: 3, k: 4 }[token];
+      state = { ...state, components, color: toColor(numbers(), components) };
+    } else if (token === "cs") {
+      const components = colorComponents(operands[0]?.slice(1));
+      // A new colour space starts out black
+      const black = components === 4 ? [0, 0, 0, 1] : [0, 0, 0];
+      state = {
+        ...state,
+        components,
+        color: toColor(black.slice(0, components), components),
+      };
+    } else if (token === "sc" || token === "scn") {
+      // Patterns are named, and have no colour of their own
+      const color = operands.some((operand) => operand.startsWith("/"))
+        ? undefined
+        : toColor(numbers(), state.components);
+      state = { ...state, color };
+    } else if (token === "BT") {
+      moveTo(IDENTITY);
+    } else if (token === "Tm") {
+      moveTo(numbers().slice(-6));
+    } else if (token === "Td" || token === "TD") {
+      const [tx, ty] = numbers();
+      if (token === "TD") leading = -ty;
+      nextLine(tx, ty);
+    } else if (token === "TL") {
+      leading = Number(operands[0]);
+    } else if (token === "T*") {
+      nextLine(0, -leading);
+    } else if (token === "Tr") {
+      renderMode = Number(operands[operands.length - 1]);
+    } else if (token === "Do") {
+      forms.push({ name: operands[0]?.slice(1), state });
+    }
+
+    if (TEXT_SHOWING_OPERATORS.has(token)) {
+      // ' and " move to the next line before showing their text
+      if (token !== "Tj" && token !== "TJ") nextLine(0, -leading);
+      invisibleText ||= INVISIBLE_RENDER_MODES.has(renderMode);
+
+      const [, , , , x, y] = multiply(textMatrix, state.ctm);
+      lastShown = {
+        x: lastShown?.x ?? x,
+        y: lastShown?.y ?? y,
+        color: state.color,
+      };
+      operators.push({ start: operandStart, end: i, text: lastShown });
+    }
+    operandStart = i;
+    operands = [];
+  }
+
+  return { operators, forms, invisibleText };
+}
+
+// Helper function to remove operators, with their operands, from content
+function removeOperators(content: string, operators: TextOperator[]): string {
+  let output = "";
+  let kept = 0;
+  for (const { start, end } of [...operators].sort(
+    (a, b) => a.start - b.start,
+  )) {
+    // Forms drawn in several places list their operators once per place
+    if (start < kept) continue;
+    output += content.slice(kept, start);
+    kept = end;
+  }
+
+  return output + content.slice(kept);
+}
+
+// Helper function to tell how many components the colours of a named colour
+// space have, or undefined when pdf-lib can't draw in that colour space
+function colorComponents(
+  resources: PDFDict | undefined,
+  name: string,
+): number | undefined {
+  if (DEVICE_COLOR_SPACES.has(name)) return DEVICE_COLOR_SPACES.get(name);
+
+  const colorSpace = resources
+    ?.lookupMaybe(PDFName.of("ColorSpace"), PDFDict)
+    ?.lookup(PDFName.of(name));
+  if (!(colorSpace instanceof PDFArray)) return undefined;
+
+  const family = colorSpace.lookup(0);
+  if (family === PDFName.of("ICCBased")) {
+    const profile = colorSpace.lookup(1);
+    const components =
+      profile instanceof PDFStream
+        ? profile.dict.lookupMaybe(PDFName.of("N"), PDFNumber)?.asNumber()
+        : undefined;
+    return [1, 3, 4].includes(components) ? components : undefined;
+  }
+  return family instanceof PDFName
+    ? DEVICE_COLOR_SPACES.get(family.decodeText())
+    : undefined;
+}
+
+function toColor(
+  values: number[],
+  components: number | undefined,
+): Color | undefined {
+  if (values.length !== components || values.some(Number.isNaN)) {
+    return undefined;
+  }
+  const [a, b, c, d] = values;
+  if (components === 1) return grayscale(a);
+  if (components === 3) return rgb(a, b, c);
+  return cmyk(a, b, c, d);
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+// Helper function to decode streams into one latin1 string, or undefined
+// when a filter is not supported
+function decodeStreams(streams: unknown[]): string | undefined {
+  let content = "";
+  for (const stream of streams) {
+    if (!(stream instanceof PDFRawStream)) return undefined;
+    try {
+      content += Buffer.from(decodePDFRawStream(stream).decode()).toString(
+        "latin1",
+      );
+    } catch {
+      return undefined;
+    }
+    content += "\n";
+  }
+
+  return content;
+}
+
+function toBytes(content: string): Uint8Array {
+  return new Uint8Array(Buffer.from(content, "latin1"));
+}
+
+// Helper function to find the end of a literal string, which may hold
+// balanced parentheses and escaped characters
+function skipLiteralString(content: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && --depth === 0) {
+      return i + 1;
+    }
+  }
+
+  return content.length;
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import { createRequire } from "module";
+import { GlobalFonts, createCanvas } from "@napi-rs/canvas";
+import { PDFDocument, PDFString, StandardFonts } from "pdf-lib";
+import { extractPdfText } from "./extract";
+
+const require = createRequire(import.meta.url);
+
+async function buildPdf(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+
+  const first = pdf.addPage([600, 800]);
+  // Drawn out of order on purpose to exercise reading-order sorting
+  first.drawText("Second line", { x: 50, y: 680, size: 12, font });
+  first.drawText("Heading", { x: 50, y: 720, size: 18, font });
+  first.drawText("left", { x: 50, y: 600, size: 12, font });
+  first.drawText("right", { x: 200, y: 600, size: 12, font });
+
+  const second = pdf.addPage([400, 500]);
+  second.drawText("Page two", { x: 40, y: 450, size: 10, font });
+
+  return pdf.save();
+}
+
+// A table of contents: two lines of one block, each linking somewhere else
+async function buildLinkedPdf(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+
+  const first = pdf.addPage([400, 500]);
+  const second = pdf.addPage([400, 500]);
+  first.drawText("Website", { x: 50, y: 400, size: 12, font });
+  first.drawText("Chapter two", { x: 50, y: 386, size: 12, font });
+  second.drawText("Chapter two", { x: 50, y: 450, size: 12, font });
+
+  const link = (rect: number[], target: Record<string, unknown>) =>
+    first.node.addAnnot(
+      pdf.context.register(
+        pdf.context.obj({
+          Type: "Annot",
+          Subtype: "Link",
+          Rect: rect,
+          ...target,
+        }),
+      ),
+    );
+  link([48, 396, 100, 410], {
+    A: { Type: "Action", S: "URI", URI: PDFString.of("https://example.com/") },
+  });
+  link([48, 382, 120, 396], { Dest: [second.ref, "XYZ", null, 470, null] });
+
+  return pdf.save();
+}
+
+// A scanned page: text drawn into an image, without a text layer
+async function buildScannedPdf(): Promise<Uint8Array> {
+  GlobalFonts.registerFromPath(
+    require.resolve(
+      "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf",
+    ),
+    "Noto Sans",
+  );
+  const canvas = createCanvas(1200, 800);
+  const context = canvas.getContext("2d");
+  context.fillStyle = "white";
+  context.fillRect(0, 0, 1200, 800);
+  context.fillStyle = "black";
+  context.font = "48px 'Noto Sans'";
+  context.fillText("Confidentiality Agreement", 100, 200);
+
+  const pdf = await PDFDocument.create();
+  const image = await pdf.embedPng(canvas.toBuffer("image/png"));
+  pdf
+    .addPage([600, 400])
+    .drawImage(image, { x: 0, y: 0, width: 600, height: 400 });
+  return pdf.save();
+}
+
+describe("extractPdfText", () => {
+  it("should return one entry per page with page sizes", async () => {
+    const document = await extractPdfText(await buildPdf());
+
+    expect(document.pageCount).toBe(2);
+    expect(document.pages.map((page) => page.pageNumber)).toEqual([1, 2]);
+    expect(document.pages[1].width).toBe(400);
+    expect(document.pages[1].height).toBe(500);
+    expect(document.pages[1].text).toBe("Page two");
+  });
+
+  it("should order runs top to bottom, left to right", async () => {
+    const [page] = (await extractPdfText(await buildPdf())).pages;
+
+    expect(page.runs.map((run) => run.text)).toEqual([
+      "Heading",
+      "Second line",
+      "left",
+      "right",
+    ]);
+    expect(page.runs.map((run) => run.order)).toEqual([0, 1, 2, 3]);
+  });
+
+  it("should report positions and font sizes", async () => {
+    const [page] = (await extractPdfText(await buildPdf())).pages;
+    const heading = page.runs[0];
+
+    expect(heading.x).toBeCloseTo(50);
+    expect(heading.y).toBeCloseTo(720);
+    expect(heading.fontSize).toBeCloseTo(18);
+    expect(heading.width).toBeGreaterThan(0);
+  });
+
+  it("should separate paragraphs by blank lines", async () => {
+    const [page] = (await extractPdfText(await buildPdf())).pages;
+
+    expect(page.text).toBe("Heading\n\nSecond line\n\nleft right");
+  });
+
+  it("should group paragraphs into blocks with bounding boxes", async () => {
+    const [page] = (await extractPdfText(await buildPdf())).pages;
+
+    expect(page.blocks.map((block) => block.text)).toEqual([
+      "Heading",
+      "Second line",
+      "left right",
+    ]);
+
+    const heading = page.blocks[0];
+    expect(heading.x).toBeCloseTo(50);
+    expect(heading.fontSize).toBeCloseTo(18);
+    expect(heading.y).toBeLessThan(720);
+    expect(heading.y + heading.height).toBeGreaterThan(720);
+  });
+
+  it("should read URI and internal links", async () => {
+    const [page] = (await extractPdfText(await buildLinkedPdf())).pages;
+
+    expect(page.links).toEqual([
+      { rect: [48, 396, 100, 410], url: "https://example.com/" },
+      { rect: [48, 382, 120, 396], pageIndex: 1, top: 470 },
+    ]);
+  });
+
+  it("should attach links to the lines of the block they cover", async () => {
+    const [page] = (await extractPdfText(await buildLinkedPdf())).pages;
+
+    expect(page.blocks).toHaveLength(1);
+    expect(page.blocks[0].links).toEqual([
+      { link: page.links[0], start: 0, end: 0.5 },
+      { link: page.links[1], start: 0.5, end: 1 },
+    ]);
+  });
+
+  it("should recognize the text of scanned pages with OCR", async () => {
+    const scan = await buildScannedPdf();
+    expect((await extractPdfText(scan)).pages[0].text).toBe("");
+
+    const [page] = (await extractPdfText(scan, { ocr: true })).pages;
+    expect(page.text).toBe("Confidentiality Agreement");
+    expect(page.ocrConfidence).toBeGreaterThan(80);
+
+    // Positions are in PDF points: the image is drawn at half its size
+    const [run] = page.runs;
+    expect(run.x).toBeCloseTo(50, -1);
+    expect(run.y).toBeCloseTo(300, -1);
+    expect(run.fontSize).toBeCloseTo(24, -1);
+  }, 30000);
+
+  it("should reject data that is not a PDF", async () => {
+    await expect(
+      extractPdfText(new TextEncoder().encode("not a pdf")),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,326 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type {
+  PDFDocumentProxy,
+  PDFPageProxy,
+  TextItem,
+} from "pdfjs-dist/types/src/display/api";
+import { OcrReader, createOcrReader } from "./ocr";
+import { analyzeLayout } from "./layout";
+import { TableCell, extractRulings } from "./tables";
+
+/**
+ * A single run of text as drawn by the PDF content stream.
+ * Coordinates are in PDF user space (origin bottom-left), y is the baseline.
+ */
+export interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontName: string;
+  fontFamily: string;
+  fontSize: number;
+  /** Position of the run in reading order within its page */
+  order: number;
+}
+
+/**
+ * A line of text within a block, made of the runs sharing its baseline.
+ * `y` is the baseline.
+ */
+export interface TextLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  /** Largest font size used on the line */
+  fontSize: number;
+  runs: TextRun[];
+}
+
+/**
+ * A paragraph-like group of consecutive lines.
+ * The box is in PDF user space: (x, y) is its bottom-left corner.
+ */
+export interface TextBlock {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Largest font size used in the block */
+  fontSize: number;
+  lines: TextLine[];
+  /** Every run of the block, line by line */
+  runs: TextRun[];
+  /** Links drawn over the block's text */
+  links: BlockLink[];
+  /** Set on table cells, whose box is the space the cell's text may fill */
+  cell?: TableCell;
+}
+
+/**
+ * A clickable area of a page, opening a URL or jumping to another place in
+ * the document. The rect is in PDF user space: [left, bottom, right, top].
+ */
+export interface PageLink {
+  rect: [number, number, number, number];
+  url?: string;
+  /** Destination page index, for links within the document */
+  pageIndex?: number;
+  /** Top of the view on the destination page, when the link sets one */
+  top?: number;
+}
+
+/**
+ * A link over some of a block's lines. `start` and `end` locate those lines
+ * as shares of the block's line count, so that the link can be moved onto
+ * the matching lines of a translation that wraps differently.
+ */
+export interface BlockLink {
+  link: PageLink;
+  start: number;
+  end: number;
+}
+
+export interface ExtractedPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  runs: TextRun[];
+  blocks: TextBlock[];
+  /** Every link of the page, whether or not it lies over text */
+  links: PageLink[];
+  /** OCR confidence from 0 to 100, for pages whose text was recognized */
+  ocrConfidence?: number;
+  /** Page text in reading order, lines joined by "\n", paragraphs by "\n\n" */
+  text: string;
+}
+
+/** A bookmark of the document outline, with its nested bookmarks */
+export interface OutlineItem extends Omit<PageLink, "rect"> {
+  title: string;
+  items: OutlineItem[];
+}
+
+export interface ExtractedDocument {
+  pageCount: number;
+  pages: ExtractedPage[];
+  outline: OutlineItem[];
+}
+
+export interface ExtractOptions {
+  /** Recognize the text of pages without a text layer, such as scans */
+  ocr?: boolean;
+  /** Called after each page with the number of pages done so far */
+  onPage?: (pagesExtracted: number, pageCount: number) => void;
+}
+
+/**
+ * Extract positioned text from every page of a PDF, as blocks of lines of
+ * runs. Blocks and runs are returned in reading order: column by column,
+ * each top to bottom (see `analyzeLayout`).
+ * With `ocr`, pages without any text are rendered and recognized instead.
+ */
+export async function extractPdfText(
+  data: Uint8Array,
+  options: ExtractOptions = {},
+): Promise<ExtractedDocument> {
+  // pdf.js may detach the buffer it is given, so always hand it a copy
+  const loadingTask = getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0,
+  });
+
+  const pdf = await loadingTask.promise;
+  // Started on the first page that needs it
+  let ocr: OcrReader | undefined;
+
+  try {
+    const pages: ExtractedPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      let runs = content.items
+        .filter((item): item is TextItem => "str" in item)
+        .filter((item) => item.str.trim().length > 0)
+        .map((item) => {
+          const [a, b, c, d, e, f] = item.transform;
+          const fontSize = Math.hypot(c, d) || Math.hypot(a, b);
+          return {
+            text: item.str,
+            x: e,
+            y: f,
+            width: item.width,
+            height: item.height || fontSize,
+            fontName: item.fontName,
+            fontFamily: content.styles[item.fontName]?.fontFamily ?? "",
+            fontSize,
+            order: 0,
+          } as TextRun;
+        });
+
+      let ocrConfidence: number | undefined;
+      if (runs.length === 0 && options.ocr) {
+        ocr ??= createOcrReader();
+        ({ runs, confidence: ocrConfidence } = await ocr.recognize(page));
+      }
+
+      // Table borders help find the cells, scans have none to read
+      const rulings =
+        runs.length > 0 && ocrConfidence === undefined
+          ? await extractRulings(page)
+          : [];
+      const blocks = analyzeLayout(runs, rulings);
+      const links = await extractLinks(pdf, page);
+      for (const link of links) {
+        attachLink(link, blocks);
+      }
+
+      pages.push({
+        pageNumber,
+        width: viewport.width,
+        height: viewport.height,
+        runs: blocks.flatMap((block) => block.runs),
+        blocks,
+        links,
+        ocrConfidence,
+        text: blocks.map((block) => block.text).join("\n\n"),
+      });
+
+      page.cleanup();
+      options.onPage?.(pageNumber, pdf.numPages);
+    }
+
+    const outline = await extractOutline(pdf, (await pdf.getOutline()) ?? []);
+
+    return { pageCount: pdf.numPages, pages, outline };
+  } finally {
+    await ocr?.terminate();
+    await loadingTask.destroy();
+  }
+}
+
+// Helper function to read a page's link annotations, resolving named and
+// explicit destinations to page indexes
+async function extractLinks(
+  pdf: PDFDocumentProxy,
+  page: PDFPageProxy,
+): Promise<PageLink[]> {
+  const links: PageLink[] = [];
+
+  for (const annotation of await page.getAnnotations({ intent: "display" })) {
+    if (annotation.subtype !== "Link") continue;
+
+    const [x1, y1, x2, y2] = annotation.rect as number[];
+    const rect: PageLink["rect"] = [
+      Math.min(x1, x2),
+      Math.min(y1, y2),
+      Math.max(x1, x2),
+      Math.max(y1, y2),
+    ];
+
+    if (annotation.url) {
+      links.push({ rect, url: annotation.url });
+      continue;
+    }
+
+    const destination = await resolveDestination(pdf, annotation.dest);
+    if (destination) {
+      links.push({ rect, ...destination });
+    }
+  }
+
+  return links;
+}
+
+// Helper function to read the bookmark tree, resolving where each bookmark
+// points to like link destinations
+async function extractOutline(
+  pdf: PDFDocumentProxy,
+  items: Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>,
+): Promise<OutlineItem[]> {
+  const outline: OutlineItem[] = [];
+
+  for (const item of items) {
+    const target = item.url
+      ? { url: item.url }
+      : await resolveDestination(pdf, item.dest);
+
+    outline.push({
+      title: item.title.replace(/\s+/g, " ").trim(),
+      ...target,
+      items: await extractOutline(pdf, item.items ?? []),
+    });
+  }
+
+  return outline;
+}
+
+// Helper function to find the page and vertical position an internal link
+// points to. Destinations are [page, mode, ...args], or names for them.
+async function resolveDestination(
+  pdf: PDFDocumentProxy,
+  dest: unknown,
+): Promise<Pick<PageLink, "pageIndex" | "top"> | undefined> {
+  try {
+    const explicit =
+      typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return undefined;
+
+    const [ref, mode, ...args] = explicit;
+    const pageIndex =
+      typeof ref === "number" ? ref : await pdf.getPageIndex(ref);
+
+    let top: unknown;
+    if (mode?.name === "XYZ") top = args[1];
+    if (mode?.name === "FitH" || mode?.name === "FitBH") top = args[0];
+
+    return typeof top === "number" ? { pageIndex, top } : { pageIndex };
+  } catch {
+    // Broken destinations are dropped rather than failing the extraction
+    return undefined;
+  }
+}
+
+// Helper function to attach a link to the block it overlaps most, recording
+// which of the block's lines it covers
+function attachLink(link: PageLink, blocks: TextBlock[]) {
+  const [left, bottom, right, top] = link.rect;
+  const overlap = (block: TextBlock) =>
+    Math.max(
+      0,
+      Math.min(right, block.x + block.width) - Math.max(left, block.x),
+    ) *
+    Math.max(
+      0,
+      Math.min(top, block.y + block.height) - Math.max(bottom, block.y),
+    );
+
+  let best: TextBlock | undefined;
+  for (const block of blocks) {
+    if (overlap(block) > 0 && (!best || overlap(block) > overlap(best))) {
+      best = block;
+    }
+  }
+  if (!best) return;
+
+  const baselines = best.lines.map((line) => line.y);
+  const covered = baselines
+    .map((y, index) => ({ y, index }))
+    .filter(({ y }) => y >= bottom - 2 && y <= top);
+  if (covered.length === 0) return;
+
+  best.links.push({
+    link,
+    start: covered[0].index / baselines.length,
+    end: (covered[covered.length - 1].index + 1) / baselines.length,
+  });
+}
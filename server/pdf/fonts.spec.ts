@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { createFontStack, embedFontStack } from "./fonts";
+import { extractPdfText } from "./extract";
+
+describe("embedFontStack", () => {
+  it("should draw text outside WinAnsi without throwing", async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([400, 400]);
+    const texts = [
+      "Соглашение о конфиденциальности",
+      "Συμφωνία εμπιστευτικότητας",
+      "秘密保持契約書について",
+      "« Accord » – “quotes”",
+    ];
+
+    const font = await embedFontStack(pdf, texts, "ja");
+    texts.forEach((text, i) => {
+      font.drawText(page, text, { x: 20, y: 350 - i * 30, size: 12 });
+    });
+
+    const document = await extractPdfText(await pdf.save());
+    expect(document.pages[0].text.split(/\n+/)).toEqual(texts);
+  });
+
+  it("should only embed the fonts the text needs", async () => {
+    const latinOnly = await PDFDocument.create();
+    await embedFontStack(latinOnly, ["Bonjour"], "fr");
+
+    const japanese = await PDFDocument.create();
+    await embedFontStack(japanese, ["こんにちは"], "ja");
+
+    const fontCount = async (pdf: PDFDocument) =>
+      (await PDFDocument.load(await pdf.save())).context
+        .enumerateIndirectObjects()
+        .filter(([, object]) => object.toString().includes("/FontFile2"))
+        .length;
+
+    expect(await fontCount(latinOnly)).toBe(1);
+    expect(await fontCount(japanese)).toBe(2);
+  });
+});
+
+describe("createFontStack", () => {
+  it("should measure mixed-font text as the sum of its runs", async () => {
+    const pdf = await PDFDocument.create();
+    const helvetica = await pdf.embedFont(StandardFonts.Helvetica);
+    const courier = await pdf.embedFont(StandardFonts.Courier);
+    const font = createFontStack([helvetica, courier]);
+
+    expect(font.widthOfTextAtSize("Hello", 10)).toBeCloseTo(
+      helvetica.widthOfTextAtSize("Hello", 10),
+    );
+  });
+});
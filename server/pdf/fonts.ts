@@ -0,0 +1,190 @@
+import { createRequire } from "module";
+import { readFile } from "fs/promises";
+import { Color, PDFDocument, PDFFont, PDFPage } from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import { TextDirection, visualRuns } from "./bidi";
+
+const require = createRequire(import.meta.url);
+
+type FontKey =
+  | "latin"
+  | "japanese"
+  | "korean"
+  | "chinese-simplified"
+  | "chinese-traditional"
+  | "arabic"
+  | "hebrew"
+  | "thai";
+
+// Noto Sans fonts shipped as npm packages. The base font covers Latin,
+// Greek and Cyrillic; the others are only embedded when the text needs them.
+const FONT_FILES: Record<FontKey, string> = {
+  latin: "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf",
+  japanese:
+    "@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf",
+  korean:
+    "@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf",
+  "chinese-simplified":
+    "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf",
+  "chinese-traditional":
+    "@expo-google-fonts/noto-sans-tc/400Regular/NotoSansTC_400Regular.ttf",
+  arabic:
+    "@expo-google-fonts/noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf",
+  hebrew:
+    "@expo-google-fonts/noto-sans-hebrew/400Regular/NotoSansHebrew_400Regular.ttf",
+  thai: "@expo-google-fonts/noto-sans-thai/400Regular/NotoSansThai_400Regular.ttf",
+};
+
+// Scripts that fontkit shapes and lays out right to left on its own
+const RTL_SCRIPT = /[\p{Script=Arabic}\p{Script=Hebrew}]/u;
+
+/**
+ * A set of embedded fonts used as one: every character is drawn with the
+ * first font of the stack that has a glyph for it. Text is drawn in visual
+ * order, right-to-left scripts shaped and reversed, in the given paragraph
+ * direction or the direction of its first letter.
+ */
+export interface FontStack {
+  widthOfTextAtSize(text: string, size: number): number;
+  drawText(
+    page: PDFPage,
+    text: string,
+    options: {
+      x: number;
+      y: number;
+      size: number;
+      color?: Color;
+      direction?: TextDirection;
+    },
+  ): void;
+}
+
+const fontFiles = new Map<FontKey, Promise<Uint8Array>>();
+
+/**
+ * Embed the fonts needed to draw the given texts into a document.
+ * Fonts are picked per script found in the texts, with Han characters
+ * resolved by the target language, and subset to the glyphs used.
+ */
+export async function embedFontStack(
+  pdf: PDFDocument,
+  texts: string[],
+  language: string,
+): Promise<FontStack> {
+  pdf.registerFontkit(fontkit);
+
+  const keys = detectFonts(texts.join("\n"), language);
+  const fonts = await Promise.all(
+    keys.map(async (key) =>
+      pdf.embedFont(await loadFontFile(key), { subset: true }),
+    ),
+  );
+
+  return createFontStack(fonts);
+}
+
+// Helper function to list the fonts a text needs, base font first
+function detectFonts(text: string, language: string): FontKey[] {
+  const keys: FontKey[] = ["latin"];
+  const code = language.toLowerCase();
+
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) {
+    keys.push("japanese");
+  }
+  if (/\p{Script=Hangul}/u.test(text)) {
+    keys.push("korean");
+  }
+  if (/\p{Script=Han}/u.test(text)) {
+    // The same code points need different glyph shapes per language
+    if (code.startsWith("ja")) keys.push("japanese");
+    else if (code.startsWith("ko")) keys.push("korean");
+    else if (code === "zh-hant" || code === "zh-tw") {
+      keys.push("chinese-traditional");
+    } else keys.push("chinese-simplified");
+  }
+  if (/\p{Script=Arabic}/u.test(text)) keys.push("arabic");
+  if (/\p{Script=Hebrew}/u.test(text)) keys.push("hebrew");
+  if (/\p{Script=Thai}/u.test(text)) keys.push("thai");
+
+  return [...new Set(keys)];
+}
+
+function loadFontFile(key: FontKey): Promise<Uint8Array> {
+  if (!fontFiles.has(key)) {
+    const promise = readFile(require.resolve(FONT_FILES[key])).catch(
+      (error) => {
+        fontFiles.delete(key);
+        throw error;
+      },
+    );
+    fontFiles.set(key, promise);
+  }
+
+  return fontFiles.get(key);
+}
+
+/**
+ * Combine embedded fonts into a stack, earlier fonts taking precedence.
+ */
+export function createFontStack(fonts: PDFFont[]): FontStack {
+  const characterSets = fonts.map((font) => new Set(font.getCharacterSet()));
+
+  // Split text into runs that can each be drawn with a single font. A run
+  // keeps its font as long as that font has the glyphs, to avoid switching
+  // fonts for spaces and punctuation shared between scripts.
+  const toRuns = (text: string) => {
+    const runs: { font: PDFFont; text: string }[] = [];
+    let current: { index: number; text: string } | undefined;
+
+    for (const character of text) {
+      const codePoint = character.codePointAt(0);
+      if (current && characterSets[current.index].has(codePoint)) {
+        current.text += character;
+        continue;
+      }
+
+      const found = characterSets.findIndex((set) => set.has(codePoint));
+      const index = found === -1 ? (current?.index ?? 0) : found;
+
+      if (current && current.index === index) {
+        current.text += character;
+      } else {
+        if (current) {
+          runs.push({ font: fonts[current.index], text: current.text });
+        }
+        current = { index, text: character };
+      }
+    }
+
+    if (current) {
+      runs.push({ font: fonts[current.index], text: current.text });
+    }
+    return runs;
+  };
+
+  return {
+    widthOfTextAtSize(text, size) {
+      return toRuns(text).reduce(
+        (total, run) => total + run.font.widthOfTextAtSize(run.text, size),
+        0,
+      );
+    },
+
+    drawText(page, text, { x, y, size, color, direction }) {
+      let cursor = x;
+      for (const { text: runText, rtl } of visualRuns(text, direction)) {
+        const runs = toRuns(runText);
+        for (const run of rtl ? runs.reverse() : runs) {
+          // Other text at a right-to-left level, like punctuation, is
+          // reversed here
+          const shown =
+            rtl && !RTL_SCRIPT.test(run.text)
+              ? Array.from(run.text).reverse().join("")
+              : run.text;
+          page.drawText(shown, { x: cursor, y, size, font: run.font, color });
+          cursor += run.font.widthOfTextAtSize(run.text, size);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, PDFHexString, PDFName } from "pdf-lib";
+import {
+  copyForm,
+  formFieldTexts,
+  readFormFields,
+  retextFormFields,
+} from "./forms";
+
+async function buildForm(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([400, 500]);
+  const form = pdf.getForm();
+
+  const name = form.createTextField("signer.name");
+  name.setText("Your full name");
+  name.acroField.dict.set(
+    PDFName.of("DV"),
+    PDFHexString.fromText("Your full name"),
+  );
+  name.acroField.dict.set(
+    PDFName.of("TU"),
+    PDFHexString.fromText("Printed name"),
+  );
+  name.addToPage(page, { x: 50, y: 400, width: 200, height: 20 });
+
+  const city = form.createTextField("signer.city");
+  city.setText("Berlin");
+  city.acroField.dict.set(PDFName.of("DV"), PDFHexString.fromText("City"));
+  city.addToPage(page, { x: 50, y: 375, width: 200, height: 20 });
+
+  const country = form.createDropdown("signer.country");
+  country.acroField.setOptions([
+    {
+      value: PDFHexString.fromText("DE"),
+      display: PDFHexString.fromText("Germany"),
+    },
+    {
+      value: PDFHexString.fromText("FR"),
+      display: PDFHexString.fromText("France"),
+    },
+  ]);
+  country.addToPage(page, { x: 50, y: 350, width: 200, height: 20 });
+
+  return pdf.save();
+}
+
+describe("forms", () => {
+  it("should read tooltips, option displays and default texts", async () => {
+    const fields = readFormFields(await PDFDocument.load(await buildForm()));
+
+    expect(fields).toEqual([
+      {
+        name: "signer.name",
+        tooltip: "Printed name",
+        defaultValue: "Your full name",
+        showsDefault: true,
+      },
+      {
+        name: "signer.city",
+        tooltip: undefined,
+        defaultValue: "City",
+        showsDefault: false,
+      },
+      {
+        name: "signer.country",
+        tooltip: undefined,
+        options: ["Germany", "France"],
+      },
+    ]);
+    expect(formFieldTexts(fields)).toEqual([
+      "Printed name",
+      "Your full name",
+      "City",
+      "Germany",
+      "France",
+    ]);
+  });
+
+  it("should keep translated fields fillable on copied pages", async () => {
+    const bytes = await buildForm();
+    const fields = retextFormFields(
+      readFormFields(await PDFDocument.load(bytes)),
+      [
+        "Name in Druckschrift",
+        "Ihr vollständiger Name",
+        "Stadt",
+        "Deutschland",
+        "Frankreich",
+      ],
+    );
+
+    const source = await PDFDocument.load(bytes);
+    const output = await PDFDocument.create();
+    const pages = await output.copyPages(source, source.getPageIndices());
+    pages.forEach((page) => output.addPage(page));
+    copyForm(source, output, pages, fields);
+
+    const form = (
+      await PDFDocument.load(
+        await output.save({ updateFieldAppearances: false }),
+      )
+    ).getForm();
+    expect(form.getTextField("signer.name").getText()).toBe(
+      "Ihr vollständiger Name",
+    );
+    // Filled-in text is kept, only the reset text is translated
+    const city = form.getTextField("signer.city");
+    expect(city.getText()).toBe("Berlin");
+    expect(city.acroField.dict.lookup(PDFName.of("DV"))).toEqual(
+      PDFHexString.fromText("Stadt"),
+    );
+
+    const country = form.getDropdown("signer.country");
+    expect(
+      country.acroField.getOptions().map((option) => ({
+        value: option.value.decodeText(),
+        display: option.display?.decodeText(),
+      })),
+    ).toEqual([
+      { value: "DE", display: "Deutschland" },
+      { value: "FR", display: "Frankreich" },
+    ]);
+    expect(
+      readFormFields(
+        await PDFDocument.load(
+          await output.save({ updateFieldAppearances: false }),
+        ),
+      )[0].tooltip,
+    ).toBe("Name in Druckschrift");
+  });
+
+  it("should skip widgets whose parents form a cycle", async () => {
+    const source = await PDFDocument.create();
+    const page = source.addPage([400, 500]);
+    const field = source.getForm().createTextField("loop");
+    field.addToPage(page, { x: 50, y: 400, width: 200, height: 20 });
+    const [widget] = field.acroField.getWidgets();
+    field.acroField.dict.set(
+      PDFName.of("Parent"),
+      source.context.getObjectRef(widget.dict),
+    );
+
+    const output = await PDFDocument.create();
+    const pages = await output.copyPages(source, [0]);
+    pages.forEach((copied) => output.addPage(copied));
+    copyForm(source, output, pages, []);
+
+    expect(output.catalog.has(PDFName.of("AcroForm"))).toBe(false);
+  });
+});
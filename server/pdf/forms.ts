@@ -0,0 +1,202 @@
+import {
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFHexString,
+  PDFName,
+  PDFObjectCopier,
+  PDFOptionList,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  PDFTextField,
+} from "pdf-lib";
+
+/**
+ * The translatable text of an AcroForm field. Labels next to fields are
+ * page text; this is what the field itself shows.
+ */
+export interface FormFieldText {
+  /** Fully qualified field name, which is never translated */
+  name: string;
+  /** Tooltip (TU), also read out by screen readers */
+  tooltip?: string;
+  /** Display values of dropdown and list box options */
+  options?: string[];
+  /** Text a text field is reset to */
+  defaultValue?: string;
+  /**
+   * Whether the text field shows its reset text, which then changes with
+   * it. Text filled in by someone is theirs and is never translated.
+   */
+  showsDefault?: boolean;
+}
+
+/**
+ * Read the translatable text of every form field of a PDF.
+ */
+export function readFormFields(pdf: PDFDocument): FormFieldText[] {
+  if (!pdf.catalog.has(PDFName.of("AcroForm"))) return [];
+
+  return pdf
+    .getForm()
+    .getFields()
+    .map((field) => {
+      const { dict } = field.acroField;
+      const text: FormFieldText = {
+        name: field.getName(),
+        tooltip: decodeText(dict, "TU"),
+      };
+
+      if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+        // Options without a display value show their export value
+        text.options = field.acroField
+          .getOptions()
+          .map((option) => (option.display ?? option.value).decodeText());
+      }
+      if (field instanceof PDFTextField) {
+        text.defaultValue = decodeText(dict, "DV");
+        // Empty fields stay empty
+        text.showsDefault =
+          text.defaultValue !== undefined &&
+          field.getText() === text.defaultValue;
+      }
+
+      return text;
+    });
+}
+
+/**
+ * Every translatable string of the fields, in field order.
+ */
+export function formFieldTexts(fields: FormFieldText[]): string[] {
+  return fields.flatMap((field) =>
+    [field.tooltip, ...(field.options ?? []), field.defaultValue].filter(
+      (text) => text !== undefined,
+    ),
+  );
+}
+
+/**
+ * Copy fields with new texts, given in the order of `formFieldTexts`.
+ * Blank texts keep the original.
+ */
+export function retextFormFields(
+  fields: FormFieldText[],
+  texts: string[],
+): FormFieldText[] {
+  let index = 0;
+  const next = (original: string | undefined) =>
+    original === undefined ? undefined : texts[index++]?.trim() || original;
+
+  return fields.map((field) => ({
+    name: field.name,
+    tooltip: next(field.tooltip),
+    options: field.options?.map(next),
+    defaultValue: next(field.defaultValue),
+    showsDefault: field.showsDefault,
+  }));
+}
+
+/**
+ * Keep the form of `source` working on pages copied into `output`: the
+ * copied widgets are gathered into a new AcroForm, and their texts are
+ * replaced by `fields`. Viewers are asked to redraw the fields, so that
+ * they show the new texts in a font of their own.
+ */
+export function copyForm(
+  source: PDFDocument,
+  output: PDFDocument,
+  pages: PDFPage[],
+  fields: FormFieldText[],
+) {
+  const sourceForm = source.catalog.lookupMaybe(
+    PDFName.of("AcroForm"),
+    PDFDict,
+  );
+  if (!sourceForm) return;
+
+  const roots = new Set<PDFRef>();
+  for (const page of pages) {
+    for (const widget of page.node.Annots()?.asArray() ?? []) {
+      if (!(widget instanceof PDFRef)) continue;
+      const root = findRootField(output, widget);
+      if (root) roots.add(root);
+    }
+  }
+  if (roots.size === 0) return;
+
+  // Default fonts and appearance that field appearances refer to
+  const copier = PDFObjectCopier.for(source.context, output.context);
+  const form = output.context.obj({
+    Fields: Array.from(roots),
+    NeedAppearances: PDFBool.True,
+  });
+  for (const key of ["DR", "DA", "Q"]) {
+    const value = sourceForm.get(PDFName.of(key));
+    if (value) form.set(PDFName.of(key), copier.copy(value));
+  }
+  output.catalog.set(PDFName.of("AcroForm"), output.context.register(form));
+
+  const texts = new Map(fields.map((field) => [field.name, field]));
+  for (const field of output.getForm().getFields()) {
+    const text = texts.get(field.getName());
+    if (!text) continue;
+
+    const { acroField } = field;
+    if (text.tooltip !== undefined) {
+      acroField.dict.set(PDFName.of("TU"), PDFHexString.fromText(text.tooltip));
+    }
+    if (
+      text.options &&
+      (field instanceof PDFDropdown || field instanceof PDFOptionList)
+    ) {
+      // Export values are what the form submits, so only displays change
+      const options = field.acroField.getOptions();
+      field.acroField.setOptions(
+        options.map((option, i) => ({
+          value: option.value,
+          display: PDFHexString.fromText(
+            text.options[i] ?? (option.display ?? option.value).decodeText(),
+          ),
+        })),
+      );
+    }
+    if (field instanceof PDFTextField && text.defaultValue !== undefined) {
+      const defaultValue = PDFHexString.fromText(text.defaultValue);
+      acroField.dict.set(PDFName.of("DV"), defaultValue);
+      if (text.showsDefault) acroField.dict.set(PDFName.of("V"), defaultValue);
+    }
+  }
+}
+
+// Helper function to follow a widget's parents up to its top-level field.
+// Annotations that are not widgets have no field, and neither do widgets
+// whose parents form a cycle.
+function findRootField(pdf: PDFDocument, ref: PDFRef): PDFRef | undefined {
+  const annotation = pdf.context.lookupMaybe(ref, PDFDict);
+  if (annotation?.get(PDFName.of("Subtype")) !== PDFName.of("Widget")) {
+    return undefined;
+  }
+
+  const visited = new Set<PDFRef>([ref]);
+  let root = ref;
+  let dict = annotation;
+  for (;;) {
+    const parent = dict.get(PDFName.of("Parent"));
+    if (!(parent instanceof PDFRef)) return root;
+    if (visited.has(parent)) return undefined;
+    visited.add(parent);
+    root = parent;
+    dict = pdf.context.lookupMaybe(parent, PDFDict);
+    if (!dict) return root;
+  }
+}
+
+function decodeText(dict: PDFDict, key: string): string | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString
+    ? value.decodeText()
+    : undefined;
+}
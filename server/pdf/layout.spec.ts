@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { TextRun } from "./extract";
+import { analyzeLayout, joinLines } from "./layout";
+import { loadHyphenator } from "./wrap";
+
+// Runs of Helvetica-like text, about half an em per character
+function run(text: string, x: number, y: number, fontSize = 10): TextRun {
+  return {
+    text,
+    x,
+    y,
+    width: text.length * fontSize * 0.5,
+    height: fontSize,
+    fontName: "F1",
+    fontFamily: "",
+    fontSize,
+    order: 0,
+  };
+}
+
+function column(lines: string[], x: number, top: number): TextRun[] {
+  return lines.map((text, i) => run(text, x, top - i * 12));
+}
+
+describe("analyzeLayout", () => {
+  it("should read columns one after the other", () => {
+    const runs = [
+      run("Reading order in papers", 150, 740, 18),
+      ...column(
+        [
+          "The left column opens with",
+          "a paragraph of a few lines",
+          "that ends on this one.",
+        ],
+        50,
+        700,
+      ),
+      ...column(
+        [
+          "The right column carries on",
+          "with more lines of its own",
+          "until it ends as well.",
+        ],
+        320,
+        700,
+      ),
+      run(
+        "A closing note below both columns spans the page width.",
+        50,
+        640,
+        12,
+      ),
+    ];
+
+    const blocks = analyzeLayout(runs, []);
+
+    expect(blocks.map((block) => block.lines.map((line) => line.text))).toEqual(
+      [
+        ["Reading order in papers"],
+        [
+          "The left column opens with",
+          "a paragraph of a few lines",
+          "that ends on this one.",
+        ],
+        [
+          "The right column carries on",
+          "with more lines of its own",
+          "until it ends as well.",
+        ],
+        ["A closing note below both columns spans the page width."],
+      ],
+    );
+    expect(blocks[1].runs.map((run) => run.order)).toEqual([1, 2, 3]);
+  });
+
+  it("should start a paragraph at an indented line after a short one", () => {
+    const runs = column(
+      [
+        "The first paragraph runs on",
+        "and stops here.",
+        "   The second one is indented",
+        "and goes on for a while.",
+      ],
+      50,
+      700,
+    );
+    runs[2].x += 15;
+
+    const blocks = analyzeLayout(runs, []);
+
+    expect(blocks.map((block) => block.lines.length)).toEqual([2, 2]);
+  });
+
+  it("should keep a hanging indent in its paragraph", () => {
+    const runs = column(
+      ["1. A numbered item that runs", "over two lines of the list."],
+      50,
+      700,
+    );
+    runs[1].x += 15;
+
+    expect(analyzeLayout(runs, [])).toHaveLength(1);
+  });
+
+  it("should find a table within one column", () => {
+    const runs = [
+      ...column(
+        [
+          "Prices went up over the year,",
+          "as the table below shows, and",
+          "most of the rise came late.",
+        ],
+        50,
+        700,
+      ),
+      run("Month", 50, 660),
+      run("Price", 200, 660),
+      run("June", 50, 648),
+      run("14.75", 200, 648),
+      ...column(
+        [
+          "The right column talks about",
+          "something else entirely, over",
+          "a few lines that run on and",
+          "on until the very end of it.",
+        ],
+        320,
+        700,
+      ),
+    ];
+
+    const blocks = analyzeLayout(runs, []);
+
+    expect(blocks.map((block) => [block.text, block.cell?.row])).toEqual([
+      [
+        "Prices went up over the year,\nas the table below shows, and\nmost of the rise came late.",
+        undefined,
+      ],
+      ["Month", 0],
+      ["Price", 0],
+      ["June", 1],
+      ["14.75", 1],
+      [
+        "The right column talks about\nsomething else entirely, over\na few lines that run on and\non until the very end of it.",
+        undefined,
+      ],
+    ]);
+  });
+
+  it("should keep a table with a column of notes whole", () => {
+    const runs = [
+      ["Voltage", "230 V", "Measured at the socket under load"],
+      ["Current", "16 A", "Fuse rating of the circuit we used"],
+      ["Power", "3.6 kW", "Highest draw seen during the test"],
+    ].flatMap(([name, value, note], row) => [
+      run(name, 50, 700 - row * 12),
+      run(value, 200, 700 - row * 12),
+      run(note, 300, 700 - row * 12),
+    ]);
+
+    const blocks = analyzeLayout(runs, []);
+
+    expect(blocks.map((block) => block.cell?.column)).toEqual([
+      0, 1, 2, 0, 1, 2, 0, 1, 2,
+    ]);
+  });
+});
+
+describe("joinLines", () => {
+  it("should put words hyphenated at line ends back together", async () => {
+    const hyphenator = await loadHyphenator("en");
+
+    expect(joinLines("The parties agree-\nment is  binding.", hyphenator)).toBe(
+      "The parties agreement is binding.",
+    );
+    expect(joinLines("Jean-\nPaul and\nMarie", hyphenator)).toBe(
+      "Jean-Paul and Marie",
+    );
+  });
+
+  it("should keep the hyphen of compounds split at a line end", async () => {
+    const hyphenator = await loadHyphenator("en");
+
+    expect(joinLines("a long-\nterm lease", hyphenator)).toBe(
+      "a long-term lease",
+    );
+    // Without hyphenation rules, only soft hyphens are dropped
+    expect(joinLines("agree-\nment and agree\u00ad\nment")).toBe(
+      "agree-ment and agreement",
+    );
+  });
+
+  it("should join Chinese and Japanese lines without a space", () => {
+    expect(joinLines("本契約は両当事者\nの合意による。")).toBe(
+      "本契約は両当事者の合意による。",
+    );
+    expect(joinLines("이 계약은\n유효합니다.")).toBe("이 계약은 유효합니다.");
+  });
+});
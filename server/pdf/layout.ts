@@ -0,0 +1,364 @@
+import type { TextBlock, TextLine, TextRun } from "./extract";
+import { DetectedTables, Ruling, findTables } from "./tables";
+import type { Hyphenator } from "./wrap";
+
+// Narrowest gap between columns, in font sizes
+const MIN_GUTTER = 1;
+// Narrowest column, as a share of the width of the text around it
+const MIN_COLUMN_SHARE = 0.2;
+// Fewest words on most lines of a column of running text. Tables have gaps
+// as wide as columns do, but their cells are short.
+const MIN_COLUMN_WORDS = 4;
+// Change of font size, as a share, that starts a new block
+const FONT_SIZE_CHANGE = 0.2;
+// Chinese and Japanese characters, which lines join without a space. Korean
+// separates its words with spaces, like Latin text.
+const UNSPACED =
+  "[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\u3000-\\u303f\\uff00-\\uffef]";
+const UNSPACED_END = new RegExp(`${UNSPACED}$`, "u");
+const UNSPACED_START = new RegExp(`^${UNSPACED}`, "u");
+
+/**
+ * Lay out the text of a page: find its columns, group each column's runs
+ * into lines, then into blocks and tables, and return the blocks in reading
+ * order. Columns are read left to right, and text spanning several columns,
+ * like a title, is read where it sits between them. Runs are numbered in
+ * reading order.
+ */
+export function analyzeLayout(runs: TextRun[], rulings: Ruling[]): TextBlock[] {
+  let tableCount = 0;
+  const blocks = splitRegion(runs).flatMap((region) => {
+    const detected = findTables(groupRunsIntoLines(region), rulings);
+    const regionBlocks = groupTablesAndBlocks(detected, tableCount);
+    tableCount += detected.tables.length;
+    return regionBlocks;
+  });
+
+  let order = 0;
+  for (const block of blocks) {
+    for (const line of block.lines) {
+      for (const run of line.runs) {
+        run.order = order++;
+      }
+    }
+  }
+
+  return blocks;
+}
+
+// Helper function to split runs into regions of a single column, in
+// reading order. Horizontal slices of the text that share a gutter are cut
+// into columns; slices without one are read top to bottom.
+function splitRegion(runs: TextRun[]): TextRun[][] {
+  if (runs.length === 0) return [];
+
+  const columns = splitColumns(runs);
+  if (columns) return columns.flatMap(splitRegion);
+
+  const slices = sliceRows(runs);
+  const groups: { runs: TextRun[]; columns: boolean }[] = [];
+  slices.forEach((slice, index) => {
+    const group = groups[groups.length - 1];
+    // A slice leading into columns belongs with them
+    const next = slices[index + 1];
+    const startsColumns =
+      next !== undefined && splitColumns([...slice, ...next]) !== undefined;
+
+    if (group?.columns && splitColumns([...group.runs, ...slice])) {
+      group.runs.push(...slice);
+    } else if (group && !group.columns && !startsColumns) {
+      group.runs.push(...slice);
+    } else {
+      groups.push({ runs: [...slice], columns: startsColumns });
+    }
+  });
+
+  // Groups are re-checked as a whole, since a slice on its own has no gutter
+  for (const group of groups) {
+    group.columns = splitColumns(group.runs) !== undefined;
+  }
+
+  if (groups.length === 1 && !groups[0].columns) return [runs];
+  return groups.flatMap((group) =>
+    group.columns ? splitRegion(group.runs) : [group.runs],
+  );
+}
+
+// Helper function to cut runs into columns at gaps that no run crosses, or
+// undefined when they do not form columns of running text
+function splitColumns(runs: TextRun[]): TextRun[][] | undefined {
+  const fontSize = medianFontSize(runs);
+  const sorted = [...runs].sort((a, b) => a.x - b.x);
+
+  const pieces: TextRun[][] = [];
+  let right = -Infinity;
+  for (const run of sorted) {
+    if (run.x - right >= fontSize * MIN_GUTTER) {
+      pieces.push([]);
+    }
+    pieces[pieces.length - 1].push(run);
+    right = Math.max(right, run.x + run.width);
+  }
+  if (pieces.length < 2) return undefined;
+
+  // Narrow pieces, like line numbers in a margin, join their neighbour
+  const left = sorted[0].x;
+  const width = Math.max(...runs.map((run) => run.x + run.width)) - left;
+  const columns: TextRun[][] = [];
+  let current: TextRun[] = [];
+  for (const piece of pieces) {
+    current.push(...piece);
+    if (widthOf(current) >= width * MIN_COLUMN_SHARE) {
+      columns.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) {
+    if (columns.length === 0) return undefined;
+    columns[columns.length - 1].push(...current);
+  }
+  if (columns.length < 2) return undefined;
+
+  return columns.every(isProse) ? columns : undefined;
+}
+
+// Helper function to tell running text, where most lines have a few words,
+// from tables and lists
+function isProse(runs: TextRun[]): boolean {
+  const lines = groupRunsIntoLines(runs);
+  const wordy = lines.filter(
+    (line) =>
+      line.flatMap((run) => run.text.split(/\s+/).filter(Boolean)).length >=
+      MIN_COLUMN_WORDS,
+  );
+  return lines.length >= 2 && wordy.length >= lines.length / 2;
+}
+
+function widthOf(runs: TextRun[]): number {
+  return (
+    Math.max(...runs.map((run) => run.x + run.width)) -
+    Math.min(...runs.map((run) => run.x))
+  );
+}
+
+// Helper function to cut runs into horizontal slices, wherever no run
+// reaches from one slice into the next
+function sliceRows(runs: TextRun[]): TextRun[][] {
+  const sorted = [...runs].sort((a, b) => topOf(b) - topOf(a));
+  const slices: TextRun[][] = [];
+  let bottom = Infinity;
+
+  for (const run of sorted) {
+    if (topOf(run) <= bottom) {
+      slices.push([run]);
+      bottom = bottomOf(run);
+    } else {
+      slices[slices.length - 1].push(run);
+      bottom = Math.min(bottom, bottomOf(run));
+    }
+  }
+
+  return slices;
+}
+
+// Helper function to group runs sharing a baseline into lines, sorted top to bottom
+function groupRunsIntoLines(runs: TextRun[]): TextRun[][] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: TextRun[][] = [];
+
+  for (const run of sorted) {
+    const line = lines[lines.length - 1];
+    const tolerance = Math.max(run.fontSize, 1) * 0.5;
+
+    if (line && Math.abs(line[0].y - run.y) <= tolerance) {
+      line.push(run);
+    } else {
+      lines.push([run]);
+    }
+  }
+
+  for (const line of lines) {
+    line.sort((a, b) => a.x - b.x);
+  }
+
+  return lines;
+}
+
+// Helper function to group consecutive lines into blocks. A new block starts
+// where the vertical gap suggests a new paragraph, where the font size
+// changes, or at an indented line following a short one.
+function groupLinesIntoBlocks(lines: TextRun[][]): TextBlock[] {
+  const groups: TextRun[][][] = [];
+  const right = Math.max(...lines.flat().map((run) => run.x + run.width));
+  let previous: TextRun[] | undefined;
+
+  for (const line of lines) {
+    if (previous && !startsBlock(previous, line, right)) {
+      groups[groups.length - 1].push(line);
+    } else {
+      groups.push([line]);
+    }
+    previous = line;
+  }
+
+  return groups.map(toBlock);
+}
+
+function startsBlock(
+  previous: TextRun[],
+  line: TextRun[],
+  right: number,
+): boolean {
+  const previousSize = Math.max(...previous.map((run) => run.fontSize));
+  const size = Math.max(...line.map((run) => run.fontSize));
+  if (previous[0].y - line[0].y > previousSize * 1.2 * 1.5) return true;
+  if (Math.abs(size - previousSize) > previousSize * FONT_SIZE_CHANGE) {
+    return true;
+  }
+
+  const previousEnd = Math.max(...previous.map((run) => run.x + run.width));
+  const short = previousEnd < right - size * 2;
+  const indented = line[0].x > previous[0].x + size * 0.5;
+  return short && indented;
+}
+
+// Helper function to lay blocks out in reading order with the tables
+// between them, each table cell becoming a block of its own. Tables are
+// numbered from `firstTable`.
+function groupTablesAndBlocks(
+  { tables, lines }: DetectedTables,
+  firstTable: number,
+): TextBlock[] {
+  const units = [
+    ...(lines.length > 0 ? groupLinesIntoBlocks(lines) : []).map((block) => [
+      block,
+    ]),
+    ...tables.map((cells, table) =>
+      cells.map(({ lines: cellLines, ...cell }): TextBlock => {
+        const { row, column, lastColumn, align, ...box } = cell;
+        return {
+          ...toBlock(cellLines),
+          ...box,
+          cell: { table: firstTable + table, row, column, lastColumn, align },
+        };
+      }),
+    ),
+  ];
+
+  const top = (blocks: TextBlock[]) =>
+    Math.max(...blocks.map((block) => block.y + block.height));
+  return units.sort((a, b) => top(b) - top(a)).flat();
+}
+
+/**
+ * Join the lines of a block's text into a single paragraph. Lines are
+ * joined with a space, except between Chinese or Japanese characters.
+ * A word hyphenated at the end of a line is put back together when the
+ * source language's hyphenator allows a break there; otherwise the hyphen
+ * is kept, as in compounds such as "long-term".
+ */
+export function joinLines(text: string, hyphenator?: Hyphenator): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .reduce((paragraph, line) => {
+      if (!paragraph) return line;
+      // "agree-" and "ment" make "agreement", while "Jean-" and "Paul" make
+      // "Jean-Paul". Soft hyphens only ever mark a break.
+      const hyphenated = /(\p{L}+)([-\u00ad\u2010])$/u.exec(paragraph);
+      const next = /^\p{L}+/u.exec(line);
+      if (hyphenated && next) {
+        const [, word, hyphen] = hyphenated;
+        const dropHyphen =
+          hyphen === "\u00ad" ||
+          (/^\p{Ll}/u.test(line) && allowsBreak(hyphenator, word, next[0]));
+        return (dropHyphen ? paragraph.slice(0, -1) : paragraph) + line;
+      }
+      const unspaced =
+        UNSPACED_END.test(paragraph) || UNSPACED_START.test(line);
+      return paragraph + (unspaced ? "" : " ") + line;
+    }, "");
+}
+
+// Helper function to tell whether a hyphenator would break a word made of
+// two parts between them
+function allowsBreak(
+  hyphenator: Hyphenator | undefined,
+  before: string,
+  after: string,
+): boolean {
+  if (!hyphenator) return false;
+
+  let position = 0;
+  for (const part of hyphenator(before + after).split("\u00ad")) {
+    position += part.length;
+    if (position === before.length) return true;
+  }
+  return false;
+}
+
+function toBlock(group: TextRun[][]): TextBlock {
+  const runs = group.flat();
+  const left = Math.min(...runs.map((run) => run.x));
+  const right = Math.max(...runs.map((run) => run.x + run.width));
+  const top = Math.max(...runs.map(topOf));
+  const bottom = Math.min(...runs.map(bottomOf));
+
+  return {
+    text: group.map(lineToText).join("\n"),
+    x: left,
+    y: bottom,
+    width: right - left,
+    height: top - bottom,
+    fontSize: Math.max(...runs.map((run) => run.fontSize)),
+    lines: group.map(toLine),
+    runs,
+    links: [],
+  };
+}
+
+function toLine(runs: TextRun[]): TextLine {
+  const left = Math.min(...runs.map((run) => run.x));
+  return {
+    text: lineToText(runs),
+    x: left,
+    y: runs[0].y,
+    width: Math.max(...runs.map((run) => run.x + run.width)) - left,
+    fontSize: Math.max(...runs.map((run) => run.fontSize)),
+    runs,
+  };
+}
+
+// Helper function to join the runs of a line, inserting spaces for visual gaps
+function lineToText(line: TextRun[]): string {
+  let lineText = "";
+  let lastEnd: number | undefined;
+
+  for (const run of line) {
+    const needsSpace =
+      lastEnd !== undefined &&
+      run.x - lastEnd > run.fontSize * 0.15 &&
+      !lineText.endsWith(" ") &&
+      !run.text.startsWith(" ");
+    lineText += (needsSpace ? " " : "") + run.text;
+    lastEnd = run.x + run.width;
+  }
+
+  return lineText.trimEnd();
+}
+
+function medianFontSize(runs: TextRun[]): number {
+  const sizes = runs.map((run) => run.fontSize).sort((a, b) => a - b);
+  return sizes[Math.floor(sizes.length / 2)];
+}
+
+// Approximate ascent and descent from the font size, pdf.js does not
+// report glyph bounds
+function topOf(run: TextRun): number {
+  return run.y + run.fontSize * 0.8;
+}
+
+function bottomOf(run: TextRun): number {
+  return run.y - run.fontSize * 0.2;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { splitBreakUnits } from "./line-break";
+
+const texts = (text: string) => splitBreakUnits(text).map((unit) => unit.text);
+
+describe("splitBreakUnits", () => {
+  it("should break between ideographs and kana without spaces", () => {
+    expect(texts("秘密を守る")).toEqual(["秘", "密", "を", "守", "る"]);
+  });
+
+  it("should keep closing punctuation and small kana off the start of a line", () => {
+    expect(texts("「はい」と言った。")).toEqual([
+      "「は",
+      "い」",
+      "と",
+      "言っ",
+      "た。",
+    ]);
+    expect(texts("ちょっとコーヒー")).toEqual(["ちょっ", "と", "コー", "ヒー"]);
+  });
+
+  it("should keep words of other scripts whole and remember spaces", () => {
+    expect(splitBreakUnits("PDFファイル, 2 pages")).toEqual([
+      { text: "PDF", spaceBefore: false },
+      { text: "ファ", spaceBefore: false },
+      { text: "イ", spaceBefore: false },
+      { text: "ル,", spaceBefore: false },
+      { text: "2", spaceBefore: true },
+      { text: "pages", spaceBefore: true },
+    ]);
+  });
+
+  it("should keep doubled dashes and ellipses together", () => {
+    expect(texts("待って……本当")).toEqual(["待っ", "て", "……", "本", "当"]);
+  });
+});
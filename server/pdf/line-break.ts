@@ -0,0 +1,68 @@
+/**
+ * A piece of text that is never broken across lines, unless it is wider than
+ * a whole line on its own
+ */
+export interface BreakUnit {
+  text: string;
+  /** Whether a space separates the unit from the one before */
+  spaceBefore: boolean;
+}
+
+// Chinese, Japanese and Korean characters, including their punctuation and
+// full-width forms, which lines may break around without spaces (UAX #14
+// classes ID, CL, OP and friends)
+const CJK =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303f・ー\uff00-\uffef]/u;
+
+// Kinsoku shori: characters that never start a line, like closing brackets,
+// full stops, small kana and the prolonged sound mark (UAX #14 classes CL,
+// CP, EX, IS and NS)
+const NO_LINE_START =
+  /[)\]}»›,.:;!?%‰°℃、。，．：；！？）］｝〕〉》」』】〙〗〟’”・ーヽヾゝゞ々〻‐゠–〜～ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶ\u31f0-\u31ff｡｣､･\uff67-\uff70]/u;
+
+// Characters that never end a line, like opening brackets and currency signs
+// that belong with the number after them (UAX #14 classes OP and PR)
+const NO_LINE_END = /[([{«‹‘“（［｛〔〈《「『【〘〖〝$£¥€＄￡￥]/u;
+
+// Dashes and ellipses that are doubled up are kept together
+const INSEPARABLE = /[—…‥]/u;
+
+/**
+ * Split a paragraph into units that a line may break between, following the
+ * rules of UAX #14 for Chinese, Japanese and Korean: lines break at spaces,
+ * and between CJK characters without one, except before closing punctuation
+ * and after opening punctuation. Runs of letters and digits in other
+ * scripts stay whole.
+ */
+export function splitBreakUnits(text: string): BreakUnit[] {
+  const units: BreakUnit[] = [];
+  let spaceBefore = false;
+  let previous: string | undefined;
+
+  for (const character of text) {
+    if (/\s/u.test(character)) {
+      spaceBefore = units.length > 0;
+      previous = undefined;
+      continue;
+    }
+
+    const unit = units[units.length - 1];
+    if (unit && previous !== undefined && !canBreak(previous, character)) {
+      unit.text += character;
+    } else {
+      units.push({ text: character, spaceBefore });
+    }
+    spaceBefore = false;
+    previous = character;
+  }
+
+  return units;
+}
+
+// Helper function to tell whether a line may break between two adjacent
+// characters
+function canBreak(before: string, after: string): boolean {
+  if (!CJK.test(before) && !CJK.test(after)) return false;
+  if (NO_LINE_START.test(after) || NO_LINE_END.test(before)) return false;
+  return !(INSEPARABLE.test(before) && before === after);
+}
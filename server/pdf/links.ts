@@ -0,0 +1,174 @@
+import { PDFArray, PDFDict, PDFHexString, PDFName, PDFPage } from "pdf-lib";
+import { BlockLink, PageLink } from "./extract";
+
+/** Where a link or bookmark points to in the source document */
+export type LinkTarget = Omit<PageLink, "rect">;
+
+/** Where an internal link jumps to in the output */
+export interface LinkDestination {
+  page: PDFPage;
+  top?: number;
+}
+
+/** A line of text as drawn on an output page, y being its baseline */
+export interface DrawnLine {
+  page: PDFPage;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+/** A paragraph carrying the links of the source block it was made from */
+export interface LinkedParagraph {
+  /** Index of the source page the paragraph comes from */
+  sourcePage?: number;
+  links?: BlockLink[];
+}
+
+export interface LinkLayout {
+  /** Record the lines a paragraph's text was drawn on */
+  place(paragraph: LinkedParagraph, lines: DrawnLine[]): void;
+  /** Where an internal link or bookmark jumps to in the output */
+  destinationOf(target: LinkTarget): LinkDestination | undefined;
+  /** Add the annotations, before the document is saved */
+  finish(): void;
+}
+
+/**
+ * Collects where paragraphs end up in a new document, then recreates their
+ * links over the matching lines once every paragraph has been placed.
+ * Internal links jump to where the content of their destination page starts,
+ * unless `resolve` maps them itself.
+ */
+export function createLinkLayout(
+  resolve?: (target: LinkTarget) => LinkDestination | undefined,
+): LinkLayout {
+  const placed: { links: BlockLink[]; lines: DrawnLine[] }[] = [];
+  // First line drawn for each source page
+  const pageStarts = new Map<number, DrawnLine>();
+
+  const findPageStart = (pageIndex: number): DrawnLine | undefined => {
+    // Pages without text jump to the next page that has some
+    const indexes = Array.from(pageStarts.keys()).sort((a, b) => a - b);
+    const index =
+      indexes.find((i) => i >= pageIndex) ?? indexes[indexes.length - 1];
+    return index === undefined ? undefined : pageStarts.get(index);
+  };
+
+  const destinationOf = (target: LinkTarget): LinkDestination | undefined => {
+    if (target.pageIndex === undefined) return undefined;
+    if (resolve) return resolve(target);
+    const start = findPageStart(target.pageIndex);
+    return start && { page: start.page, top: start.y + start.fontSize };
+  };
+
+  return {
+    destinationOf,
+
+    place(paragraph: LinkedParagraph, lines: DrawnLine[]) {
+      if (lines.length === 0) return;
+      if (
+        paragraph.sourcePage !== undefined &&
+        !pageStarts.has(paragraph.sourcePage)
+      ) {
+        pageStarts.set(paragraph.sourcePage, lines[0]);
+      }
+      if (paragraph.links?.length) {
+        placed.push({ links: paragraph.links, lines });
+      }
+    },
+
+    finish() {
+      for (const { links, lines } of placed) {
+        for (const { link, start, end } of links) {
+          const destination = destinationOf(link);
+
+          // Move the link onto the same share of the translated lines
+          const first = Math.min(
+            lines.length - 1,
+            Math.floor(start * lines.length),
+          );
+          const last = Math.max(first, Math.ceil(end * lines.length) - 1);
+          for (const line of lines.slice(first, last + 1)) {
+            addLinkAnnotation(
+              line.page,
+              [
+                line.x,
+                line.y - line.fontSize * 0.25,
+                line.x + line.width,
+                line.y + line.fontSize * 0.9,
+              ],
+              link,
+              destination,
+            );
+          }
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Add a link annotation opening `link.url`, or jumping to `destination`.
+ * Links with neither are skipped.
+ */
+export function addLinkAnnotation(
+  page: PDFPage,
+  rect: [number, number, number, number],
+  link: PageLink,
+  destination?: LinkDestination,
+) {
+  const target = linkTargetEntries(link, destination);
+  if (!target) return;
+
+  const { context } = page.doc;
+  const annotation = context.register(
+    context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: rect,
+      Border: [0, 0, 0],
+      ...target,
+    } as Parameters<typeof context.obj>[0]),
+  );
+  page.node.addAnnot(annotation);
+}
+
+/**
+ * The dictionary entries opening `link.url`, or jumping to `destination`,
+ * shared by link annotations and outline items.
+ */
+export function linkTargetEntries(
+  link: LinkTarget,
+  destination?: LinkDestination,
+): Record<string, unknown> | undefined {
+  if (link.url) {
+    // URIs are byte strings, written in hex so that brackets and backslashes
+    // need no escaping
+    const uri = PDFHexString.of(Buffer.from(link.url).toString("hex"));
+    return { A: { Type: "Action", S: "URI", URI: uri } };
+  }
+  if (destination) {
+    return {
+      Dest: [destination.page.ref, "XYZ", null, destination.top ?? null, null],
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Remove the link annotations of a copied page. Their destinations still
+ * point into the source document.
+ */
+export function removeLinkAnnotations(page: PDFPage) {
+  const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+  if (!annotations) return;
+
+  for (let i = annotations.size() - 1; i >= 0; i--) {
+    const annotation = annotations.lookupMaybe(i, PDFDict);
+    if (annotation?.get(PDFName.of("Subtype")) === PDFName.of("Link")) {
+      annotations.remove(i);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { createRequire } from "module";
+import { createCanvas } from "@napi-rs/canvas";
+import type { PDFPageProxy } from "pdfjs-dist/types/src/display/api";
+import { createWorker } from "tesseract.js";
+import type { TextRun } from "./extract";
+
+// Tesseract is most accurate on images of about 300 DPI
+const OCR_SCALE = 300 / 72;
+// Lines below this confidence are usually noise from pictures or stains
+const MIN_LINE_CONFIDENCE = 40;
+
+/** Text recognized on a page, with the engine's mean confidence (0-100) */
+export interface OcrPage {
+  runs: TextRun[];
+  confidence: number;
+}
+
+/**
+ * Recognizes text on rendered PDF pages. The engine starts on the first
+ * page and keeps running until `terminate` is called.
+ */
+export interface OcrReader {
+  recognize(page: PDFPageProxy): Promise<OcrPage>;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Create an OCR reader for the languages in OCR_LANGUAGES (Tesseract codes
+ * joined by "+", defaults to "eng"). Trained data is read from OCR_LANG_PATH,
+ * or from the bundled English data, so recognition works offline.
+ */
+export function createOcrReader(): OcrReader {
+  let worker: ReturnType<typeof createWorker> | undefined;
+
+  const getWorker = () => {
+    if (!worker) {
+      const bundled = createRequire(import.meta.url)("@tesseract.js-data/eng");
+      worker = createWorker(process.env.OCR_LANGUAGES || "eng", 1, {
+        langPath: process.env.OCR_LANG_PATH || bundled.langPath,
+        gzip: true,
+        // Never write downloaded or cached data next to the app
+        cacheMethod: "none",
+      });
+    }
+
+    return worker;
+  };
+
+  return {
+    async recognize(page) {
+      const viewport = page.getViewport({ scale: OCR_SCALE });
+      const canvas = createCanvas(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height),
+      );
+      await page.render({
+        canvasContext: canvas.getContext(
+          "2d",
+        ) as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      const { data } = await (
+        await getWorker()
+      ).recognize(canvas.toBuffer("image/png"));
+      const pageHeight = viewport.height / OCR_SCALE;
+
+      const runs = data.lines
+        .filter((line) => line.confidence >= MIN_LINE_CONFIDENCE)
+        .filter((line) => line.text.trim().length > 0)
+        .map((line): TextRun => {
+          const { bbox, baseline } = line;
+          // Row height spans ascenders to descenders, close to the font size
+          const rowHeight = line.rowAttributes?.row_height || bbox.y1 - bbox.y0;
+          const baselineY = baseline?.has_baseline
+            ? (baseline.y0 + baseline.y1) / 2
+            : bbox.y1 - rowHeight * 0.2;
+
+          return {
+            text: line.text.trim(),
+            x: bbox.x0 / OCR_SCALE,
+            y: pageHeight - baselineY / OCR_SCALE,
+            width: (bbox.x1 - bbox.x0) / OCR_SCALE,
+            height: rowHeight / OCR_SCALE,
+            fontName: "OCR",
+            fontFamily: "",
+            fontSize: rowHeight / OCR_SCALE,
+            order: 0,
+          };
+        });
+
+      return { runs, confidence: data.confidence };
+    },
+
+    async terminate() {
+      if (worker) await (await worker).terminate();
+      worker = undefined;
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { OutlineItem, extractPdfText } from "./extract";
+import { addOutline, outlineTitles, retitleOutline } from "./outline";
+
+const outline: OutlineItem[] = [
+  {
+    title: "Introduction",
+    pageIndex: 0,
+    top: 480,
+    items: [{ title: "Scope", pageIndex: 1, top: 300, items: [] }],
+  },
+  { title: "Website", url: "https://example.com/smiley_:)", items: [] },
+];
+
+describe("outline", () => {
+  it("should write a bookmark tree that extraction reads back", async () => {
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const pages = [pdf.addPage([400, 500]), pdf.addPage([400, 500])];
+    pages.forEach((page, i) =>
+      page.drawText(`Page ${i + 1}`, { x: 50, y: 450, size: 12, font }),
+    );
+
+    addOutline(pdf, outline, (target) => ({
+      page: pages[target.pageIndex],
+      top: target.top,
+    }));
+    const document = await extractPdfText(await pdf.save());
+
+    expect(document.outline).toEqual(outline);
+  });
+
+  it("should replace titles in the order they were listed", () => {
+    const titles = outlineTitles(outline);
+    expect(titles).toEqual(["Introduction", "Scope", "Website"]);
+
+    const retitled = retitleOutline(outline, ["Einleitung", "Umfang", " "]);
+    expect(outlineTitles(retitled)).toEqual([
+      "Einleitung",
+      "Umfang",
+      "Website",
+    ]);
+    expect(retitled[0].items[0].pageIndex).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { PDFDocument, PDFHexString, PDFName, PDFRef } from "pdf-lib";
+import { OutlineItem } from "./extract";
+import { LinkDestination, LinkTarget, linkTargetEntries } from "./links";
+
+/**
+ * Every bookmark title of an outline, parents before their children.
+ */
+export function outlineTitles(outline: OutlineItem[]): string[] {
+  return outline.flatMap((item) => [item.title, ...outlineTitles(item.items)]);
+}
+
+/**
+ * Copy an outline with new titles, given in the order of `outlineTitles`.
+ * Blank titles keep the original.
+ */
+export function retitleOutline(
+  outline: OutlineItem[],
+  titles: string[],
+): OutlineItem[] {
+  let index = 0;
+  const retitle = (items: OutlineItem[]): OutlineItem[] =>
+    items.map((item) => {
+      const title = titles[index++]?.trim() || item.title;
+      return { ...item, title, items: retitle(item.items) };
+    });
+
+  return retitle(outline);
+}
+
+/**
+ * Give a document the bookmark tree `outline`. Nested bookmarks start
+ * collapsed, and the document opens with the bookmarks panel shown.
+ */
+export function addOutline(
+  pdf: PDFDocument,
+  outline: OutlineItem[],
+  destinationOf: (target: LinkTarget) => LinkDestination | undefined,
+) {
+  if (outline.length === 0) return;
+
+  const root = pdf.context.nextRef();
+  const items = addOutlineItems(pdf, outline, root, destinationOf);
+
+  pdf.context.assign(
+    root,
+    pdf.context.obj({
+      Type: "Outlines",
+      First: items[0],
+      Last: items[items.length - 1],
+      Count: items.length,
+    }),
+  );
+  pdf.catalog.set(PDFName.of("Outlines"), root);
+  pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+// Helper function to write sibling bookmarks as a linked list under
+// `parent`, returning their references
+function addOutlineItems(
+  pdf: PDFDocument,
+  outline: OutlineItem[],
+  parent: PDFRef,
+  destinationOf: (target: LinkTarget) => LinkDestination | undefined,
+): PDFRef[] {
+  const { context } = pdf;
+  const refs = outline.map(() => context.nextRef());
+
+  outline.forEach((item, i) => {
+    const children = addOutlineItems(pdf, item.items, refs[i], destinationOf);
+
+    context.assign(
+      refs[i],
+      context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parent,
+        ...(i > 0 && { Prev: refs[i - 1] }),
+        ...(i < refs.length - 1 && { Next: refs[i + 1] }),
+        ...(children.length > 0 && {
+          First: children[0],
+          Last: children[children.length - 1],
+          // A negative count marks the bookmark as collapsed
+          Count: -children.length,
+        }),
+        ...linkTargetEntries(item, destinationOf(item)),
+      } as Parameters<typeof context.obj>[0]),
+    );
+  });
+
+  return refs;
+}
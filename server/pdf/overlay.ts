@@ -0,0 +1,352 @@
+import { Color, PDFDocument, PDFPage, rgb } from "pdf-lib";
+import {
+  ExtractedDocument,
+  ExtractedPage,
+  OutlineItem,
+  PageLink,
+  TextBlock,
+  TextRun,
+} from "./extract";
+import { TextDirection, isRtlLanguage } from "./bidi";
+import { ShownText, removePageText } from "./content-stream";
+import { FontStack, embedFontStack } from "./fonts";
+import { FormFieldText, copyForm } from "./forms";
+import {
+  DrawnLine,
+  LinkTarget,
+  addLinkAnnotation,
+  createLinkLayout,
+  removeLinkAnnotations,
+} from "./links";
+import { addOutline } from "./outline";
+import { RunningText } from "./running-text";
+import {
+  Hyphenator,
+  TextAlign,
+  WrappedLine,
+  drawWrappedLine,
+  wrapText,
+} from "./wrap";
+
+const LINE_SPACING = 1.15;
+const MIN_FONT_SIZE = 4;
+
+export interface OverlayOptions {
+  /** Target language, used to pick fonts and the direction of the text */
+  language: string;
+  align?: TextAlign;
+  hyphenator?: Hyphenator;
+  /** Bookmarks to give the document, defaults to the source outline */
+  outline?: OutlineItem[];
+  /** Translated texts of the form fields, which stay fillable either way */
+  formFields?: FormFieldText[];
+  /** Headers and footers, whose repeats are all drawn at the same size */
+  runningText?: RunningText[];
+  /** Called after each page has been drawn */
+  onPage?: (pagesRendered: number, pageCount: number) => void;
+}
+
+/**
+ * Render a translation over the original document: every source page is
+ * copied with its images and graphics, the original text of each translated
+ * block is removed and its translation drawn back into the block's bounding
+ * box, in the block's colour, shrinking the font when needed. Text that
+ * cannot be removed, such as OCR'd scans, is masked instead.
+ *
+ * `translations[pageIndex][blockIndex]` holds the translated text of the
+ * matching block in `document`. Blocks without a translation keep their
+ * original text, and so do blocks drawn in a colour pdf-lib can't draw in.
+ * Links over translated blocks move onto the matching translated lines,
+ * other links keep their place. The outline is rebuilt over the new pages,
+ * and form fields stay fillable.
+ *
+ * Repeats of a header or footer are drawn at the size that fits all of
+ * them, so that the running text looks the same on every page.
+ * Table cells are drawn into their own cell, in their column's alignment.
+ * Translations into right-to-left languages mirror the layout of the text:
+ * blocks move to the other side of the page, table cells to the mirrored
+ * columns of their table, and each is right-aligned within its box. Images,
+ * graphics and untranslated blocks stay where they are.
+ */
+export async function renderOverlay(
+  source: PDFDocument,
+  document: ExtractedDocument,
+  translations: string[][],
+  options: OverlayOptions,
+): Promise<Uint8Array> {
+  const output = await PDFDocument.create();
+  const font = await embedFontStack(
+    output,
+    translations.flat(),
+    options.language,
+  );
+
+  const pages = await output.copyPages(source, source.getPageIndices());
+  // Pages keep their place, so internal links keep their destinations
+  const destinationOf = (link: LinkTarget) =>
+    pages[link.pageIndex] && { page: pages[link.pageIndex], top: link.top };
+  const links = createLinkLayout(destinationOf);
+
+  // Translations read in the target language's direction
+  const direction: TextDirection | undefined = isRtlLanguage(options.language)
+    ? "rtl"
+    : undefined;
+
+  const drawnTexts = new Map<TextBlock, string>();
+  document.pages.forEach((page, pageIndex) =>
+    page.blocks.forEach((block, blockIndex) => {
+      const translation = translations[pageIndex]?.[blockIndex];
+      if (translation?.trim()) drawnTexts.set(block, translation);
+    }),
+  );
+
+  // Running text is drawn no larger than its tightest translated repeat allows
+  const maxSizes = new Map<TextBlock, number>();
+  for (const { blocks } of options.runningText ?? []) {
+    const drawn = blocks.filter((block) => drawnTexts.has(block));
+    const size = Math.min(
+      ...drawn.map(
+        (block) =>
+          fitText(drawnTexts.get(block), block, font, {
+            ...options,
+            direction,
+          }).size,
+      ),
+    );
+    drawn.forEach((block) => maxSizes.set(block, size));
+  }
+
+  pages.forEach((page, pageIndex) => {
+    output.addPage(page);
+    removeLinkAnnotations(page);
+
+    const extracted = document.pages[pageIndex];
+    if (!extracted) return;
+
+    // Only the text of translated blocks is removed. Blocks take the colour
+    // of their first text, unless some of it is in a colour that can't be
+    // drawn again, and then keep their original text.
+    const colors = new Map<TextBlock, Color | undefined>();
+    const selectRemoved = (texts: ShownText[]) => {
+      const blocks = texts.map((text) => findBlock(text, extracted.blocks));
+      texts.forEach((text, i) => {
+        if (!drawnTexts.has(blocks[i])) return;
+        if (!colors.has(blocks[i])) colors.set(blocks[i], text.color);
+        if (!text.color) colors.set(blocks[i], undefined);
+      });
+      return texts.filter((_, i) => colors.get(blocks[i]));
+    };
+
+    // Text that is part of an image, on scans, can only be masked
+    const masked =
+      extracted.ocrConfidence !== undefined ||
+      !removePageText(page, selectRemoved);
+
+    const boxes =
+      direction === "rtl" && page.getRotation().angle % 180 === 0
+        ? mirrorBlocks(extracted, page.getCropBox())
+        : undefined;
+
+    const movedLinks = new Set<PageLink>();
+    for (const block of extracted.blocks) {
+      if (!drawnTexts.has(block)) continue;
+      // Kept in its original text
+      if (!masked && colors.has(block) && !colors.get(block)) continue;
+
+      if (masked) {
+        for (const run of block.runs) {
+          maskRun(page, run);
+        }
+      }
+      links.place(
+        block,
+        drawFittedText(
+          page,
+          drawnTexts.get(block),
+          boxes?.get(block) ?? block,
+          font,
+          {
+            ...options,
+            maxSize: maxSizes.get(block),
+            direction,
+            color: colors.get(block) ?? rgb(0, 0, 0),
+          },
+        ),
+      );
+      block.links.forEach(({ link }) => movedLinks.add(link));
+    }
+
+    for (const link of extracted.links) {
+      if (movedLinks.has(link)) continue;
+      addLinkAnnotation(page, link.rect, link, destinationOf(link));
+    }
+
+    options.onPage?.(pageIndex + 1, pages.length);
+  });
+
+  links.finish();
+  addOutline(output, options.outline ?? document.outline, destinationOf);
+  copyForm(source, output, pages, options.formFields ?? []);
+  // Viewers redraw the fields, pdf-lib's fonts could not encode every script
+  return output.save({ updateFieldAppearances: false });
+}
+
+// Helper function to mirror the boxes of a page's blocks, for right-to-left
+// text: blocks move to the other side of the page, and table cells take the
+// place of the mirrored columns of their table, whose borders stay in place
+function mirrorBlocks(
+  page: ExtractedPage,
+  { x, width }: { x: number; width: number },
+): Map<TextBlock, TextBlock> {
+  // Left edge of each table's columns and right edge, by table
+  const columns = new Map<number, { left: number[]; right: number[] }>();
+  for (const { cell, ...box } of page.blocks) {
+    if (!cell) continue;
+    if (!columns.has(cell.table)) {
+      columns.set(cell.table, { left: [], right: [] });
+    }
+    const { left, right } = columns.get(cell.table);
+    left[cell.column] = Math.min(left[cell.column] ?? Infinity, box.x);
+    right[cell.lastColumn] = Math.max(
+      right[cell.lastColumn] ?? -Infinity,
+      box.x + box.width,
+    );
+  }
+
+  const mirrored = new Map<TextBlock, TextBlock>();
+  for (const block of page.blocks) {
+    if (!block.cell) {
+      mirrored.set(block, {
+        ...block,
+        x: 2 * x + width - block.x - block.width,
+      });
+      continue;
+    }
+
+    const { left, right } = columns.get(block.cell.table);
+    const last = Math.max(left.length, right.length) - 1;
+    const start = left[last - block.cell.lastColumn];
+    const end = right[last - block.cell.column];
+    // Columns no cell starts or ends in have no edge to take
+    if (start !== undefined && end !== undefined && end > start) {
+      mirrored.set(block, { ...block, x: start, width: end - start });
+    }
+  }
+
+  return mirrored;
+}
+
+// Helper function to find the block whose runs lie closest to shown text
+function findBlock(
+  text: ShownText,
+  blocks: TextBlock[],
+): TextBlock | undefined {
+  let closest: TextBlock | undefined;
+  let closestDistance = Infinity;
+  for (const block of blocks) {
+    for (const run of block.runs) {
+      const distance = Math.hypot(
+        Math.max(0, run.x - text.x, text.x - run.x - run.width),
+        run.y - text.y,
+      );
+      if (distance < closestDistance) {
+        closest = block;
+        closestDistance = distance;
+      }
+    }
+  }
+
+  return closest;
+}
+
+// Helper function to cover an original text run with an opaque box
+function maskRun(page: PDFPage, run: TextRun) {
+  page.drawRectangle({
+    x: run.x - 1,
+    y: run.y - run.fontSize * 0.25,
+    width: run.width + 2,
+    height: run.fontSize * 1.1,
+    color: rgb(1, 1, 1),
+  });
+}
+
+type FitOptions = OverlayOptions & {
+  maxSize?: number;
+  direction?: TextDirection;
+  color?: Color;
+};
+
+// Helper function to wrap text inside a block's box, shrinking the font size
+// until the wrapped text fits both its width and height
+function fitText(
+  text: string,
+  block: TextBlock,
+  font: FontStack,
+  options: FitOptions,
+): { size: number; lines: WrappedLine[] } {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const minSize = Math.min(
+    block.fontSize,
+    Math.max(MIN_FONT_SIZE, block.fontSize * 0.4),
+  );
+
+  const wrap = (fontSize: number) =>
+    wrapText(normalized, {
+      font,
+      fontSize,
+      maxWidth: block.width,
+      hyphenator: options.hyphenator,
+      direction: options.direction,
+    });
+
+  let size = Math.max(
+    minSize,
+    Math.min(block.fontSize, options.maxSize ?? Infinity),
+  );
+  let lines = wrap(size);
+
+  while (size > minSize && !fits(lines, size, block)) {
+    size = Math.max(minSize, size - 0.5);
+    lines = wrap(size);
+  }
+
+  return { size, lines };
+}
+
+// Helper function to draw text fitted inside a block's box
+function drawFittedText(
+  page: PDFPage,
+  text: string,
+  block: TextBlock,
+  font: FontStack,
+  options: FitOptions,
+): DrawnLine[] {
+  const { size, lines } = fitText(text, block, font, options);
+
+  // Table cells keep their column's alignment, and are never justified
+  const align = block.cell ? block.cell.align : options.align;
+
+  // Baselines go down from the top of the box, like the original lines did
+  const top = block.y + block.height;
+  return lines.map((line, i) => {
+    const y = top - size * 0.8 - i * size * LINE_SPACING;
+    const { x, width } = drawWrappedLine(page, line, {
+      x: block.x,
+      y,
+      font,
+      fontSize: size,
+      maxWidth: block.width,
+      align,
+      color: options.color,
+    });
+    return { page, x, y, width, fontSize: size };
+  });
+}
+
+function fits(lines: WrappedLine[], size: number, block: TextBlock): boolean {
+  const height = size + (lines.length - 1) * size * LINE_SPACING;
+  return (
+    height <= block.height + 0.5 &&
+    lines.every((line) => line.width <= block.width + 0.5)
+  );
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { renderReflow } from "./reflow";
+import { extractPdfText } from "./extract";
+
+const paragraph =
+  "Les informations confidentielles peuvent se présenter sous de nombreuses formes, par exemple dans des présentations, des courriels ou des échanges oraux.";
+
+async function render(
+  texts: string[],
+  pageSize: [number, number] = [400, 500],
+  language = "fr",
+) {
+  const { pdfBytes } = await renderReflow(
+    texts.map((text) => ({ text })),
+    {
+      pageSize,
+      language,
+      header: "Translated Document",
+      footer: "Powered by DeepL",
+    },
+  );
+  return extractPdfText(pdfBytes);
+}
+
+describe("renderReflow", () => {
+  it("should flow long text onto as many pages as needed", async () => {
+    const text = Array.from({ length: 30 }, (_, i) => `${i} ${paragraph}`);
+    const document = await render(text);
+
+    expect(document.pageCount).toBeGreaterThan(2);
+    for (const page of document.pages) {
+      // Every page carries body text, not just the first line of overflow
+      const body = page.blocks.filter(
+        (block) =>
+          !block.text.startsWith("Translated Document") &&
+          !block.text.includes("Powered by DeepL"),
+      );
+      expect(body.map((block) => block.text).join(" ").length).toBeGreaterThan(
+        200,
+      );
+    }
+  });
+
+  it("should put the header, footer and page number on every page", async () => {
+    const document = await render(Array.from({ length: 30 }, () => paragraph));
+    const pageCount = document.pageCount;
+
+    document.pages.forEach((page, index) => {
+      expect(page.text).toContain("Translated Document");
+      expect(page.text).toContain("Powered by DeepL");
+      expect(page.text).toContain(`Page ${index + 1} of ${pageCount}`);
+    });
+  });
+
+  it("should recreate links over the translated lines", async () => {
+    const link = { rect: [0, 0, 10, 10] as [number, number, number, number] };
+    const { pdfBytes } = await renderReflow(
+      Array.from({ length: 30 }, (_, i) => ({
+        text: `${i} ${paragraph}`,
+        sourcePage: Math.floor(i / 10),
+        links:
+          i === 0
+            ? [
+                {
+                  link: { ...link, url: "https://example.com/" },
+                  start: 0,
+                  end: 1,
+                },
+                { link: { ...link, pageIndex: 2 }, start: 0, end: 0.5 },
+              ]
+            : [],
+      })),
+      {
+        pageSize: [400, 500],
+        language: "fr",
+        header: "Translated Document",
+        footer: "Powered by DeepL",
+      },
+    );
+    const document = await extractPdfText(pdfBytes);
+    const [first] = document.pages;
+
+    // The URI link covers every line of the paragraph, the internal one
+    // only the first half
+    const lineCount = first.blocks
+      .find((block) => block.text.startsWith("0 "))
+      .text.split("\n").length;
+    const uriLinks = first.links.filter((link) => link.url);
+    const internalLinks = first.links.filter((link) => !link.url);
+    expect(uriLinks).toHaveLength(lineCount);
+    expect(internalLinks).toHaveLength(Math.ceil(lineCount / 2));
+
+    // It jumps to the page where the paragraphs of source page 2 start
+    const target = document.pages.findIndex((page) =>
+      page.text.includes("20 Les informations"),
+    );
+    expect(target).toBeGreaterThan(0);
+    expect(internalLinks[0].pageIndex).toBe(target);
+  });
+
+  it("should use the requested page size", async () => {
+    const document = await render([paragraph], [612, 792]);
+
+    expect(document.pages[0].width).toBe(612);
+    expect(document.pages[0].height).toBe(792);
+  });
+
+  it("should right-align right-to-left text and mirror the page", async () => {
+    const document = await render(["שלום עולם 2024."], [400, 500], "he");
+    const [header, body, footer] = document.pages[0].blocks;
+
+    expect(body.x + body.width).toBeCloseTo(350, 0);
+    expect(header.x + header.width).toBeCloseTo(350, 0);
+    // The page number moves to the left margin
+    expect(footer.text).toMatch(/^Page 1 of 1/);
+    expect(footer.x).toBeCloseTo(50, 0);
+  });
+});
@@ -0,0 +1,219 @@
+import { PDFDocument, PDFPage, rgb } from "pdf-lib";
+import { isRtlLanguage } from "./bidi";
+import { FontStack, embedFontStack } from "./fonts";
+import { OutlineItem } from "./extract";
+import {
+  DrawnLine,
+  LinkLayout,
+  LinkedParagraph,
+  createLinkLayout,
+} from "./links";
+import { addOutline } from "./outline";
+import { Hyphenator, TextAlign, drawWrappedLine, wrapText } from "./wrap";
+
+export const MARGIN = 50;
+export const FONT_SIZE = 12;
+export const LINE_HEIGHT = FONT_SIZE + 4;
+// Extra space between paragraphs
+export const PARAGRAPH_GAP = LINE_HEIGHT / 2;
+const HEADER_SIZE = 16;
+const FOOTER_SIZE = 10;
+const FOOTER_Y = 30;
+// Space reserved below the header before the body starts
+const HEADER_GAP = 40;
+
+export interface ReflowOptions {
+  /** Page width and height in points */
+  pageSize: [number, number];
+  /** Target language, used to pick fonts and the direction of the text */
+  language: string;
+  header: string;
+  footer: string;
+  align?: TextAlign;
+  hyphenator?: Hyphenator;
+  /** Bookmarks to give the document, pointing into the source pages */
+  outline?: OutlineItem[];
+  /** Called after each page has been finished */
+  onPage?: (pagesRendered: number, pageCount: number) => void;
+}
+
+/**
+ * A new document that text is flowed into, page after page. Every page
+ * gets the same header and footer, and a "Page n of N" number. Links and
+ * bookmarks follow the paragraphs placed in `links`.
+ */
+export interface FlowDocument {
+  font: FontStack;
+  links: LinkLayout;
+  width: number;
+  /** Baseline of the first body line on a page */
+  bodyTop: number;
+  /** Lowest baseline allowed for body text */
+  bodyBottom: number;
+  addPage(): PDFPage;
+  /**
+   * Draw headers and footers, now that the page count is known, add links
+   * and bookmarks, and save
+   */
+  finish(): Promise<{ pdfBytes: Uint8Array; pageCount: number }>;
+}
+
+/**
+ * Create a document for flowing text, with fonts covering every script
+ * in `texts`.
+ */
+export async function createFlowDocument(
+  texts: string[],
+  options: ReflowOptions,
+): Promise<FlowDocument> {
+  const pdf = await PDFDocument.create();
+  const [width, height] = options.pageSize;
+
+  // Embed Unicode fonts covering every script in the document
+  const font = await embedFontStack(
+    pdf,
+    [...texts, options.header, options.footer, "Page 0123456789 of"],
+    options.language,
+  );
+
+  const links = createLinkLayout();
+
+  return {
+    font,
+    links,
+    width,
+    bodyTop: height - MARGIN - HEADER_GAP,
+    bodyBottom: FOOTER_Y + FOOTER_SIZE + MARGIN / 2,
+
+    addPage: () => pdf.addPage([width, height]),
+
+    async finish() {
+      const pages = pdf.getPages();
+      pages.forEach((page, index) => {
+        drawPageDecorations(page, font, options, index + 1, pages.length);
+        options.onPage?.(index + 1, pages.length);
+      });
+      links.finish();
+      addOutline(pdf, options.outline ?? [], links.destinationOf);
+
+      return { pdfBytes: await pdf.save(), pageCount: pages.length };
+    },
+  };
+}
+
+export interface FlowParagraph extends LinkedParagraph {
+  text: string;
+}
+
+/**
+ * Page cursor for flowing text: tracks the current page and the baseline
+ * of the next line, moving to a new page when the body area is full.
+ */
+interface PageCursor {
+  page: PDFPage;
+  y: number;
+}
+
+/**
+ * Flow translated paragraphs into a new document, line after line, carrying
+ * their links over to the lines they end up on.
+ */
+export async function renderReflow(
+  paragraphs: FlowParagraph[],
+  options: ReflowOptions,
+): Promise<{ pdfBytes: Uint8Array; pageCount: number }> {
+  const document = await createFlowDocument(
+    paragraphs.map((paragraph) => paragraph.text),
+    options,
+  );
+  const { font, bodyTop, bodyBottom } = document;
+  const maxWidth = document.width - 2 * MARGIN;
+
+  const newPage = (): PageCursor => ({
+    page: document.addPage(),
+    y: bodyTop,
+  });
+
+  let cursor = newPage();
+
+  paragraphs.forEach((paragraph, index) => {
+    const lines = wrapText(paragraph.text, {
+      font,
+      fontSize: FONT_SIZE,
+      maxWidth,
+      hyphenator: options.hyphenator,
+      direction: isRtlLanguage(options.language) ? "rtl" : undefined,
+    });
+    if (lines.length === 0) return;
+
+    if (index > 0) cursor.y -= PARAGRAPH_GAP;
+
+    const drawn: DrawnLine[] = [];
+    for (const line of lines) {
+      if (cursor.y < bodyBottom) {
+        cursor = newPage();
+      }
+
+      const { x, width } = drawWrappedLine(cursor.page, line, {
+        x: MARGIN,
+        y: cursor.y,
+        font,
+        fontSize: FONT_SIZE,
+        maxWidth,
+        align: options.align,
+        color: rgb(0, 0, 0),
+      });
+      drawn.push({
+        page: cursor.page,
+        x,
+        y: cursor.y,
+        width,
+        fontSize: FONT_SIZE,
+      });
+      cursor.y -= LINE_HEIGHT;
+    }
+
+    document.links.place(paragraph, drawn);
+  });
+
+  return document.finish();
+}
+
+// Helper function to draw the running header, footer and page number. They
+// are mirrored for right-to-left languages, the page number going left.
+function drawPageDecorations(
+  page: PDFPage,
+  font: FontStack,
+  options: ReflowOptions,
+  pageNumber: number,
+  pageCount: number,
+) {
+  const { width, height } = page.getSize();
+  const rtl = isRtlLanguage(options.language);
+  const startOf = (text: string, size: number) =>
+    rtl ? width - MARGIN - font.widthOfTextAtSize(text, size) : MARGIN;
+  const endOf = (text: string, size: number) =>
+    rtl ? MARGIN : width - MARGIN - font.widthOfTextAtSize(text, size);
+
+  font.drawText(page, options.header, {
+    x: startOf(options.header, HEADER_SIZE),
+    y: height - MARGIN,
+    size: HEADER_SIZE,
+    color: rgb(0.2, 0.2, 0.2),
+  });
+
+  font.drawText(page, options.footer, {
+    x: startOf(options.footer, FOOTER_SIZE),
+    y: FOOTER_Y,
+    size: FOOTER_SIZE,
+    color: rgb(0.5, 0.5, 0.5),
+  });
+
+  const pageLabel = `Page ${pageNumber} of ${pageCount}`;
+  font.drawText(page, pageLabel, {
+    x: endOf(pageLabel, FOOTER_SIZE),
+    y: FOOTER_Y,
+    size: FOOTER_SIZE,
+    color: rgb(0.5, 0.5, 0.5),
+  });
+}
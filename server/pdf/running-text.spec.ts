@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { extractPdfText } from "./extract";
+import { fillRunningText, findRunningText } from "./running-text";
+
+async function buildReport(pageCount: number): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (let i = 1; i <= pageCount; i++) {
+    const page = pdf.addPage([400, 500]);
+    page.drawText("Annual Report 2024", { x: 50, y: 470, size: 9, font });
+    page.drawText(`Body text of page ${i}`, { x: 50, y: 300, size: 12, font });
+    page.drawText(`Page ${i} of ${pageCount}`, { x: 50, y: 20, size: 9, font });
+  }
+  return pdf.save();
+}
+
+describe("findRunningText", () => {
+  it("should find headers and footers that differ in numbers only", async () => {
+    const document = await extractPdfText(await buildReport(3));
+    const runningText = findRunningText(document);
+
+    expect(
+      runningText.map(({ position, text, blocks }) => ({
+        position,
+        text,
+        repeats: blocks.length,
+      })),
+    ).toEqual([
+      { position: "header", text: "Annual Report 2024", repeats: 3 },
+      { position: "footer", text: "Page 1 of 3", repeats: 3 },
+    ]);
+  });
+
+  it("should not treat the text of a single page as running", async () => {
+    const document = await extractPdfText(await buildReport(1));
+    expect(findRunningText(document)).toEqual([]);
+  });
+});
+
+describe("fillRunningText", () => {
+  it("should put each repeat's numbers into the translation", async () => {
+    const document = await extractPdfText(await buildReport(3));
+    const footer = findRunningText(document)[1];
+
+    expect(fillRunningText(footer, "Seite 1 von 3")).toEqual([
+      "Seite 1 von 3",
+      "Seite 2 von 3",
+      "Seite 3 von 3",
+    ]);
+    // Numbers the translation changed cannot be matched to the repeats
+    expect(fillRunningText(footer, "Seite eins von drei")).toEqual([
+      "Seite eins von drei",
+      undefined,
+      undefined,
+    ]);
+  });
+});
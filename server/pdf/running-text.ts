@@ -0,0 +1,90 @@
+import { ExtractedDocument, TextBlock } from "./extract";
+
+// Share of the page height, at the top and at the bottom, where running
+// headers and footers are looked for
+const BAND = 0.12;
+// Share of the pages a text must repeat on to be running text
+const MIN_PAGE_SHARE = 0.5;
+
+/**
+ * A header or footer repeated across pages. Repeats may differ in their
+ * numbers only, like "Page 2 of 9" and "Page 3 of 9".
+ */
+export interface RunningText {
+  position: "header" | "footer";
+  /** Text of the first repeat, which is the one to translate */
+  text: string;
+  /** Every repeat, in page order */
+  blocks: TextBlock[];
+}
+
+/**
+ * Find the blocks that repeat in the top or bottom band of at least half the
+ * pages of a document, and at least two of them.
+ */
+export function findRunningText(document: ExtractedDocument): RunningText[] {
+  const candidates = new Map<string, RunningText & { pages: Set<number> }>();
+
+  document.pages.forEach((page, pageIndex) => {
+    for (const block of page.blocks) {
+      const text = normalizeText(block.text);
+      if (text.length === 0) continue;
+
+      const position =
+        block.y >= page.height * (1 - BAND)
+          ? "header"
+          : block.y + block.height <= page.height * BAND
+            ? "footer"
+            : undefined;
+      if (!position) continue;
+
+      const key = `${position}:${text.replace(/\d+/g, "#")}`;
+      const candidate = candidates.get(key) ?? {
+        position,
+        text,
+        blocks: [],
+        pages: new Set<number>(),
+      };
+      candidate.blocks.push(block);
+      candidate.pages.add(pageIndex);
+      candidates.set(key, candidate);
+    }
+  });
+
+  const minPages = Math.max(2, Math.ceil(document.pageCount * MIN_PAGE_SHARE));
+  return Array.from(candidates.values())
+    .filter((candidate) => candidate.pages.size >= minPages)
+    .map(({ position, text, blocks }) => ({ position, text, blocks }));
+}
+
+/**
+ * Spread the translation of a running text over its repeats, putting each
+ * repeat's own numbers in place of the first repeat's. Repeats with other
+ * numbers are left undefined when the translation does not keep every
+ * number as it was.
+ */
+export function fillRunningText(
+  runningText: RunningText,
+  translation: string,
+): (string | undefined)[] {
+  const numbers = runningText.text.match(/\d+/g) ?? [];
+
+  return runningText.blocks.map((block) => {
+    const blockNumbers = normalizeText(block.text).match(/\d+/g) ?? [];
+    if (blockNumbers.join(" ") === numbers.join(" ")) return translation;
+
+    const used = new Set<number>();
+    const text = translation.replace(/\d+/g, (number) => {
+      const index = numbers.findIndex((n, i) => n === number && !used.has(i));
+      if (index < 0) return number;
+      used.add(index);
+      return blockNumbers[index];
+    });
+
+    return used.size === numbers.length ? text : undefined;
+  });
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
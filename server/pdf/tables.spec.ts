@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { TextRun, extractPdfText } from "./extract";
+import { findTables } from "./tables";
+
+// Quarterly figures, numbers right-aligned at x = 300 and 400
+async function buildTable(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const page = pdf.addPage([500, 600]);
+  page.drawText("Results are summarized below.", {
+    x: 50,
+    y: 520,
+    size: 12,
+    font,
+  });
+
+  const rows = [
+    ["Item", "Q1", "Q2"],
+    ["Revenue", "1,200", "31,350"],
+    ["Operating costs", "800", "950"],
+  ];
+  rows.forEach((row, r) => {
+    const y = 470 - r * 24;
+    page.drawText(row[0], { x: 60, y, size: 10, font });
+    [300, 400].forEach((right, c) => {
+      const text = row[c + 1];
+      const x = right - font.widthOfTextAtSize(text, 10);
+      page.drawText(text, { x, y, size: 10, font });
+    });
+    page.drawLine({
+      start: { x: 50, y: y - 7 },
+      end: { x: 410, y: y - 7 },
+      thickness: 0.5,
+    });
+  });
+  for (const x of [50, 210, 310, 410]) {
+    page.drawLine({
+      start: { x, y: 487 },
+      end: { x, y: 415 },
+      thickness: 0.5,
+    });
+  }
+  return pdf.save();
+}
+
+function run(text: string, x: number, y: number, width: number): TextRun {
+  return {
+    text,
+    x,
+    y,
+    width,
+    height: 10,
+    fontName: "F1",
+    fontFamily: "",
+    fontSize: 10,
+    order: 0,
+  };
+}
+
+describe("tables", () => {
+  it("should turn each cell of a ruled table into a block", async () => {
+    const document = await extractPdfText(await buildTable());
+    const [intro, ...cells] = document.pages[0].blocks;
+
+    expect(intro.cell).toBeUndefined();
+    expect(cells.map((block) => block.text)).toEqual([
+      "Item",
+      "Q1",
+      "Q2",
+      "Revenue",
+      "1,200",
+      "31,350",
+      "Operating costs",
+      "800",
+      "950",
+    ]);
+    expect(cells[4].cell).toEqual({
+      table: 0,
+      row: 1,
+      column: 1,
+      lastColumn: 1,
+      align: "right",
+    });
+    expect(cells[3].cell.align).toBe("left");
+
+    // Cells fill the space between the ruling lines around them
+    const revenue = cells[4];
+    expect(revenue.x).toBeCloseTo(212);
+    expect(revenue.x + revenue.width).toBeCloseTo(300);
+    expect(revenue.y).toBeCloseTo(441);
+  });
+
+  it("should find tables from aligned columns without ruling lines", () => {
+    const lines = [
+      [run("Name", 50, 500, 30), run("Size", 200, 500, 25)],
+      [run("Small box", 50, 485, 50), run("10 cm", 200, 485, 30)],
+      [run("Large box", 50, 470, 50), run("40 cm", 200, 470, 30)],
+      [run("Sizes are outer dimensions of the boxes.", 50, 440, 220)],
+    ];
+
+    const { tables, lines: rest } = findTables(lines, []);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].map((cell) => [cell.row, cell.column])).toEqual([
+      [0, 0],
+      [0, 1],
+      [1, 0],
+      [1, 1],
+      [2, 0],
+      [2, 1],
+    ]);
+    expect(rest).toEqual([lines[3]]);
+  });
+
+  it("should join the wrapped lines of a cell", () => {
+    const lines = [
+      [run("Part", 50, 500, 25), run("Description", 200, 500, 60)],
+      [run("A-1", 50, 485, 20), run("Steel bracket for", 200, 485, 90)],
+      [run("wall mounting", 200, 473, 70)],
+      [run("A-2", 50, 458, 20), run("Rubber seal", 200, 458, 60)],
+    ];
+
+    const [table] = findTables(lines, []).tables;
+
+    expect(table.map((cell) => cell.lines.map((line) => line[0].text))).toEqual(
+      [
+        ["Part"],
+        ["Description"],
+        ["A-1"],
+        ["Steel bracket for", "wall mounting"],
+        ["A-2"],
+        ["Rubber seal"],
+      ],
+    );
+  });
+
+  it("should not take prose set in two columns for a table", () => {
+    const lines = [0, 1, 2].map((i) => [
+      run("Lorem ipsum dolor sit amet consectetur", 50, 500 - i * 14, 200),
+      run("adipiscing elit sed do eiusmod tempor", 300, 500 - i * 14, 200),
+    ]);
+
+    const { tables, lines: rest } = findTables(lines, []);
+
+    expect(tables).toEqual([]);
+    expect(rest).toEqual(lines);
+  });
+});
@@ -0,0 +1,570 @@
+import { OPS } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { PDFPageProxy } from "pdfjs-dist/types/src/display/api";
+import type { TextRun } from "./extract";
+
+// Gap between runs, in font sizes, that separates the cells of a row
+const CELL_GAP = 1.2;
+// Largest distance between the baselines of consecutive table lines, in
+// font sizes
+const MAX_ROW_PITCH = 3;
+// Strokes shorter than this are marks or glyphs rather than ruling lines
+const MIN_RULING_LENGTH = 4;
+// Space kept between a cell's text and the ruling lines around it
+const RULING_PADDING = 2;
+// How far apart edges may be and still line up, as reported widths vary
+const EDGE_TOLERANCE = 2;
+// Columns averaging more words per cell read as prose columns, not tables
+const MAX_PROSE_WORDS = 4;
+
+/**
+ * A straight horizontal or vertical line drawn on a page, such as a table
+ * border. `at` is its y (horizontal) or x (vertical), `from` and `to` its
+ * extent along the other axis, in PDF user space.
+ */
+export interface Ruling {
+  orientation: "horizontal" | "vertical";
+  at: number;
+  from: number;
+  to: number;
+}
+
+/** Where a block sits in its table */
+export interface TableCell {
+  /** Index of the table on its page */
+  table: number;
+  row: number;
+  column: number;
+  /** Last column of cells spanning several columns */
+  lastColumn: number;
+  /** Numbers are usually right-aligned, labels left-aligned */
+  align: "left" | "right";
+}
+
+/**
+ * A table cell found by `findTables`: its lines of text, and the box its
+ * text may fill, bounded by the neighbouring cells and ruling lines.
+ */
+export interface DetectedCell extends Omit<TableCell, "table"> {
+  lines: TextRun[][];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedTables {
+  /** Cells of each table, row by row */
+  tables: DetectedCell[][];
+  /** Lines outside any table, top to bottom */
+  lines: TextRun[][];
+}
+
+interface Interval {
+  left: number;
+  right: number;
+}
+
+interface TableLine {
+  line: TextRun[];
+  cells: TextRun[][];
+}
+
+/**
+ * Read the horizontal and vertical lines a page draws, both stroked lines
+ * and thin filled rectangles.
+ */
+export async function extractRulings(page: PDFPageProxy): Promise<Ruling[]> {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const rulings: Ruling[] = [];
+  const stack: number[][] = [];
+  let ctm = [1, 0, 0, 1, 0, 0];
+  // Rulings of the path being built, kept once the path is painted
+  let pending: Ruling[] = [];
+
+  fnArray.forEach((fn, i) => {
+    const args = argsArray[i];
+    switch (fn) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.transform:
+        ctm = multiply(ctm, args);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (args[0]) ctm = multiply(ctm, args[0]);
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? ctm;
+        break;
+      case OPS.constructPath:
+        pending.push(...pathRulings(args[0], args[1], ctm));
+        break;
+      case OPS.endPath:
+        // Clipping paths are not drawn
+        pending = [];
+        break;
+      case OPS.stroke:
+      case OPS.closeStroke:
+      case OPS.fill:
+      case OPS.eoFill:
+      case OPS.fillStroke:
+      case OPS.eoFillStroke:
+      case OPS.closeFillStroke:
+      case OPS.closeEOFillStroke:
+        rulings.push(...pending);
+        pending = [];
+        break;
+    }
+  });
+
+  return rulings;
+}
+
+/**
+ * Find tables among the lines of a page: runs of consecutive lines split
+ * into cells by wide gaps or vertical rulings, whose cells line up in at
+ * least two columns. Rows are separated by horizontal rulings, or start
+ * where the first column has text.
+ */
+export function findTables(
+  lines: TextRun[][],
+  rulings: Ruling[],
+): DetectedTables {
+  const tables: DetectedCell[][] = [];
+  const rest: TextRun[][] = [];
+  let candidate: TableLine[] = [];
+
+  const close = () => {
+    const cells = candidate.length > 0 ? buildTable(candidate, rulings) : [];
+    if (cells.length > 0) {
+      tables.push(cells);
+    } else {
+      rest.push(...candidate.map(({ line }) => line));
+    }
+    candidate = [];
+  };
+
+  for (const line of lines) {
+    const cells = splitIntoCells(line, rulings);
+
+    if (candidate.length > 0) {
+      const previous = candidate[candidate.length - 1].line;
+      const fontSize = Math.max(...line.map((run) => run.fontSize));
+      const near = previous[0].y - line[0].y <= fontSize * MAX_ROW_PITCH;
+      // A single cell continues the table when it fits in one column
+      const columns = findColumns(candidate);
+      const fits =
+        cells.length >= 2 ||
+        columns.filter((column) => overlaps(column, extent(cells[0])))
+          .length === 1;
+
+      if (near && fits) {
+        candidate.push({ line, cells });
+        continue;
+      }
+      close();
+    }
+
+    if (cells.length >= 2) {
+      candidate.push({ line, cells });
+    } else {
+      rest.push(line);
+    }
+  }
+  close();
+
+  return { tables, lines: rest };
+}
+
+// Helper function to turn the lines of a candidate table into cells, or
+// none when the lines do not line up as a table
+function buildTable(lines: TableLine[], rulings: Ruling[]): DetectedCell[] {
+  const columns = findColumns(lines);
+  const columnOf = (cell: TextRun[]) => {
+    const indexes = columns
+      .map((column, index) => (overlaps(column, extent(cell)) ? index : -1))
+      .filter((index) => index >= 0);
+    return { first: indexes[0], last: indexes[indexes.length - 1] };
+  };
+
+  const multiColumnLines = lines.filter(
+    ({ cells }) => new Set(cells.map((cell) => columnOf(cell).first)).size >= 2,
+  );
+  if (columns.length < 2 || multiColumnLines.length < 2) return [];
+  // Text between the columns does not line up as a table
+  if (
+    lines.some(({ cells }) =>
+      cells.some((cell) => columnOf(cell).first === undefined),
+    )
+  ) {
+    return [];
+  }
+
+  // Prose laid out in columns splits into long "cells" in every column
+  const words = columns.map(() => ({ count: 0, cells: 0 }));
+  for (const { cells } of lines) {
+    for (const cell of cells) {
+      const column = words[columnOf(cell).first];
+      column.count += cell
+        .map((run) => run.text)
+        .join(" ")
+        .split(/\s+/)
+        .filter(Boolean).length;
+      column.cells++;
+    }
+  }
+  if (
+    words.every(
+      ({ count, cells }) => cells === 0 || count / cells > MAX_PROSE_WORDS,
+    )
+  ) {
+    return [];
+  }
+
+  // Group lines into rows, then each row's text into cells
+  const rows: TableLine[][] = [];
+  lines.forEach((tableLine, index) => {
+    const previous = lines[index - 1]?.line;
+    const startsRow =
+      !previous ||
+      tableLine.cells.some((cell) => columnOf(cell).first === 0) ||
+      previous[0].y - tableLine.line[0].y >
+        Math.max(...tableLine.line.map((run) => run.fontSize)) * 1.5 ||
+      rulings.some(
+        (ruling) =>
+          ruling.orientation === "horizontal" &&
+          ruling.at < bottomOf(previous) &&
+          ruling.at > topOf(tableLine.line) &&
+          ruling.from < columns[columns.length - 1].right &&
+          ruling.to > columns[0].left,
+      );
+    if (startsRow) {
+      rows.push([tableLine]);
+    } else {
+      rows[rows.length - 1].push(tableLine);
+    }
+  });
+
+  const align = columns.map((_, index) =>
+    columnAlignment(
+      lines.flatMap(({ cells }) =>
+        cells.filter((cell) => {
+          const { first, last } = columnOf(cell);
+          return first === index && last === index;
+        }),
+      ),
+    ),
+  );
+
+  return rows.flatMap((row, rowIndex) => {
+    const nextRow = rows[rowIndex + 1];
+    const nextTop = nextRow
+      ? Math.max(...nextRow.map(({ line }) => topOf(line)))
+      : undefined;
+
+    // Cells of the row by first column, with their lines top to bottom
+    const cells = new Map<number, { last: number; lines: TextRun[][] }>();
+    for (const { cells: lineCells } of row) {
+      for (const cell of lineCells) {
+        const { first, last } = columnOf(cell);
+        const entry = cells.get(first) ?? { last, lines: [] };
+        entry.last = Math.max(entry.last, last);
+        entry.lines.push(cell);
+        cells.set(first, entry);
+      }
+    }
+
+    return Array.from(cells.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([column, { last, lines: cellLines }]): DetectedCell => {
+        const runs = cellLines.flat();
+        const fontSize = Math.max(...runs.map((run) => run.fontSize));
+        const text = extent(runs);
+        const top = topOf(runs);
+        const textBottom = bottomOf(runs);
+        const verticals = rulings.filter(
+          (ruling) =>
+            ruling.orientation === "vertical" &&
+            ruling.from < top &&
+            ruling.to > textBottom,
+        );
+
+        // Widen the box up to the next column or ruling, on the side the
+        // text grows towards
+        const cellAlign = column === last ? align[column] : "left";
+        const leftLimit =
+          column > 0 ? columns[column - 1].right : text.left - fontSize * 3;
+        const rightLimit =
+          last < columns.length - 1
+            ? columns[last + 1].left
+            : text.right + fontSize * 3;
+        const leftWall = Math.max(
+          ...verticals
+            .map((ruling) => ruling.at)
+            .filter((at) => at > leftLimit && at <= text.left),
+        );
+        const rightWall = Math.min(
+          ...verticals
+            .map((ruling) => ruling.at)
+            .filter((at) => at >= text.right && at < rightLimit),
+        );
+
+        // Neighbours growing towards each other share the gap between them
+        const gutter = fontSize * 0.5;
+        let left = text.left;
+        let right = text.right;
+        if (cellAlign === "right") {
+          left = Number.isFinite(leftWall)
+            ? leftWall + RULING_PADDING
+            : column === 0
+              ? text.left
+              : align[column - 1] === "left"
+                ? (leftLimit + columns[column].left + gutter) / 2
+                : leftLimit + gutter;
+        } else {
+          const nextAlign = align[last + 1];
+          right = Number.isFinite(rightWall)
+            ? rightWall - RULING_PADDING
+            : nextAlign === undefined
+              ? text.right
+              : nextAlign === "right"
+                ? (columns[last].right + rightLimit - gutter) / 2
+                : rightLimit - gutter;
+        }
+
+        // Extend the box down to the next row or ruling
+        const floor = Math.max(
+          nextTop ?? -Infinity,
+          ...rulings
+            .filter(
+              (ruling) =>
+                ruling.orientation === "horizontal" &&
+                ruling.at < textBottom &&
+                ruling.from < right &&
+                ruling.to > left,
+            )
+            .map((ruling) => ruling.at),
+        );
+        const bottom = Number.isFinite(floor)
+          ? Math.min(textBottom, floor + RULING_PADDING)
+          : textBottom;
+
+        return {
+          row: rowIndex,
+          column,
+          lastColumn: last,
+          align: cellAlign,
+          lines: cellLines,
+          x: Math.min(left, text.left),
+          y: bottom,
+          width: Math.max(right, text.right) - Math.min(left, text.left),
+          height: top - bottom,
+        };
+      });
+  });
+}
+
+// Helper function to split a line where a wide gap or a vertical ruling
+// separates consecutive runs
+function splitIntoCells(line: TextRun[], rulings: Ruling[]): TextRun[][] {
+  const cells: TextRun[][] = [];
+
+  for (const run of line) {
+    const cell = cells[cells.length - 1];
+    const previous = cell?.[cell.length - 1];
+    const end = previous ? previous.x + previous.width : 0;
+    const separated =
+      !previous ||
+      run.x - end > Math.max(previous.fontSize, run.fontSize) * CELL_GAP ||
+      rulings.some(
+        (ruling) =>
+          ruling.orientation === "vertical" &&
+          ruling.at > end - 1 &&
+          ruling.at < run.x + 1 &&
+          ruling.from <= run.y + run.fontSize * 0.5 &&
+          ruling.to >= run.y,
+      );
+
+    if (separated) {
+      cells.push([run]);
+    } else {
+      cell.push(run);
+    }
+  }
+
+  return cells;
+}
+
+// Helper function to find the columns that the cells of most lines fall
+// into. Lines whose cells would merge columns, like headers spanning
+// several columns, are left out.
+function findColumns(lines: TableLine[]): Interval[] {
+  let columns: Interval[] = [];
+  const byCellCount = lines
+    .filter(({ cells }) => cells.length >= 2)
+    .sort((a, b) => b.cells.length - a.cells.length);
+
+  for (const { cells } of byCellCount) {
+    const merged = cells.map(extent).reduce(addToColumns, columns);
+    const used = new Set(
+      cells.map((cell) =>
+        merged.findIndex((column) => overlaps(column, extent(cell))),
+      ),
+    );
+    if (used.size === cells.length) columns = merged;
+  }
+
+  return columns;
+}
+
+function addToColumns(columns: Interval[], interval: Interval): Interval[] {
+  const merged = { ...interval };
+  const others = columns.filter((column) => {
+    if (!overlaps(column, merged)) return true;
+    merged.left = Math.min(merged.left, column.left);
+    merged.right = Math.max(merged.right, column.right);
+    return false;
+  });
+
+  return [...others, merged].sort((a, b) => a.left - b.left);
+}
+
+// Helper function to tell right-aligned columns, whose cells share their
+// right edge but not their left one
+function columnAlignment(cells: TextRun[][]): "left" | "right" {
+  if (cells.length < 2) return "left";
+
+  const extents = cells.map(extent);
+  const left = Math.min(...extents.map((cell) => cell.left));
+  const right = Math.max(...extents.map((cell) => cell.right));
+  const leftAligned = extents.filter(
+    (cell) => cell.left - left < EDGE_TOLERANCE,
+  ).length;
+  const rightAligned = extents.filter(
+    (cell) => right - cell.right < EDGE_TOLERANCE,
+  ).length;
+
+  return rightAligned > leftAligned ? "right" : "left";
+}
+
+function extent(runs: TextRun[]): Interval {
+  return {
+    left: Math.min(...runs.map((run) => run.x)),
+    right: Math.max(...runs.map((run) => run.x + run.width)),
+  };
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.left < b.right && b.left < a.right;
+}
+
+// Approximate ascent and descent from the font size, like text blocks do
+function topOf(runs: TextRun[]): number {
+  return Math.max(...runs.map((run) => run.y + run.fontSize * 0.8));
+}
+
+function bottomOf(runs: TextRun[]): number {
+  return Math.min(...runs.map((run) => run.y - run.fontSize * 0.2));
+}
+
+// Helper function to list the horizontal and vertical segments of a path,
+// given as pdf.js path operators and their coordinates
+function pathRulings(
+  operators: number[],
+  coordinates: number[],
+  ctm: number[],
+): Ruling[] {
+  const segments: [number[], number[]][] = [];
+  const point = (x: number, y: number) => [
+    ctm[0] * x + ctm[2] * y + ctm[4],
+    ctm[1] * x + ctm[3] * y + ctm[5],
+  ];
+  let start = point(0, 0);
+  let current = start;
+  let i = 0;
+
+  for (const operator of operators) {
+    switch (operator) {
+      case OPS.moveTo:
+        start = current = point(coordinates[i], coordinates[i + 1]);
+        i += 2;
+        break;
+      case OPS.lineTo: {
+        const next = point(coordinates[i], coordinates[i + 1]);
+        segments.push([current, next]);
+        current = next;
+        i += 2;
+        break;
+      }
+      case OPS.curveTo:
+        current = point(coordinates[i + 4], coordinates[i + 5]);
+        i += 6;
+        break;
+      case OPS.curveTo2:
+      case OPS.curveTo3:
+        current = point(coordinates[i + 2], coordinates[i + 3]);
+        i += 4;
+        break;
+      case OPS.rectangle: {
+        const [x, y, width, height] = coordinates.slice(i, i + 4);
+        const corners = [
+          point(x, y),
+          point(x + width, y),
+          point(x + width, y + height),
+          point(x, y + height),
+        ];
+        corners.forEach((corner, index) =>
+          segments.push([corner, corners[(index + 1) % 4]]),
+        );
+        start = current = corners[0];
+        i += 4;
+        break;
+      }
+      case OPS.closePath:
+        segments.push([current, start]);
+        current = start;
+        break;
+    }
+  }
+
+  return segments.flatMap(([[x1, y1], [x2, y2]]): Ruling[] => {
+    if (Math.abs(y1 - y2) < 0.5 && Math.abs(x1 - x2) >= MIN_RULING_LENGTH) {
+      return [
+        {
+          orientation: "horizontal",
+          at: y1,
+          from: Math.min(x1, x2),
+          to: Math.max(x1, x2),
+        },
+      ];
+    }
+    if (Math.abs(x1 - x2) < 0.5 && Math.abs(y1 - y2) >= MIN_RULING_LENGTH) {
+      return [
+        {
+          orientation: "vertical",
+          at: x1,
+          from: Math.min(y1, y2),
+          to: Math.max(y1, y2),
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+// Helper function to combine a transformation with the current one, so
+// that `m` applies first
+function multiply(ctm: number[], m: number[]): number[] {
+  return [
+    ctm[0] * m[0] + ctm[2] * m[1],
+    ctm[1] * m[0] + ctm[3] * m[1],
+    ctm[0] * m[2] + ctm[2] * m[3],
+    ctm[1] * m[2] + ctm[3] * m[3],
+    ctm[0] * m[4] + ctm[2] * m[5] + ctm[4],
+    ctm[1] * m[4] + ctm[3] * m[5] + ctm[5],
+  ];
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { FontStack, createFontStack, embedFontStack } from "./fonts";
+import { loadHyphenator, wrapText } from "./wrap";
+
+let font: FontStack;
+
+beforeAll(async () => {
+  const pdf = await PDFDocument.create();
+  font = createFontStack([await pdf.embedFont(StandardFonts.Helvetica)]);
+});
+
+describe("wrapText", () => {
+  it("should keep every line within the maximum width", () => {
+    const text =
+      "La confidentialité des informations reçues pendant votre mentorat est une condition préalable à sa poursuite.";
+    const lines = wrapText(text, { font, fontSize: 12, maxWidth: 150 });
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(font.widthOfTextAtSize(line.text, 12)).toBeLessThanOrEqual(150);
+      expect(line.width).toBeCloseTo(font.widthOfTextAtSize(line.text, 12));
+    }
+    expect(lines.map((line) => line.text).join(" ")).toBe(text);
+  });
+
+  it("should fill lines by glyph widths rather than character counts", () => {
+    // Narrow glyphs: far more than maxWidth / (0.6 * fontSize) characters fit
+    const lines = wrapText("ill ill ill ill ill ill ill ill ill ill", {
+      font,
+      fontSize: 10,
+      maxWidth: 60,
+    });
+
+    expect(lines[0].text.length).toBeGreaterThan(60 / 6);
+  });
+
+  it("should mark the last line of each paragraph", () => {
+    const lines = wrapText("one two three four\nfive six", {
+      font,
+      fontSize: 12,
+      maxWidth: 60,
+    });
+
+    expect(lines.map((line) => [line.text, line.endsParagraph])).toEqual([
+      ["one two", false],
+      ["three four", true],
+      ["five six", true],
+    ]);
+  });
+
+  it("should hyphenate words that do not fit using the language rules", async () => {
+    const hyphenator = await loadHyphenator("fr");
+    const lines = wrapText("Les conditions de confidentialité", {
+      font,
+      fontSize: 12,
+      maxWidth: 150,
+      hyphenator,
+    });
+
+    expect(lines[0].text).toMatch(/-$/);
+    expect(
+      lines
+        .map((line) => line.text.replace(/-$/, ""))
+        .join("")
+        .replace(/ /g, ""),
+    ).toBe("Lesconditionsdeconfidentialité");
+    for (const line of lines) {
+      expect(line.width).toBeLessThanOrEqual(150);
+    }
+  });
+
+  it("should break words wider than a whole line", () => {
+    const lines = wrapText("Supercalifragilisticexpialidocious", {
+      font,
+      fontSize: 12,
+      maxWidth: 50,
+    });
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.map((line) => line.text).join("")).toBe(
+      "Supercalifragilisticexpialidocious",
+    );
+  });
+
+  it("should break Japanese lines between characters but not before closing punctuation", async () => {
+    const pdf = await PDFDocument.create();
+    const text =
+      "秘密保持契約書（以下「本契約」という。）は、当事者間で開示される情報を保護するものです。コーヒーを飲みながら、ちょっと読んでください。";
+    const japanese = await embedFontStack(pdf, [text], "ja");
+
+    for (let maxWidth = 40; maxWidth <= 200; maxWidth += 9) {
+      const lines = wrapText(text, { font: japanese, fontSize: 10, maxWidth });
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.map((line) => line.text).join("")).toBe(text);
+      for (const line of lines) {
+        expect(line.width).toBeLessThanOrEqual(maxWidth);
+        expect(line.text).not.toMatch(/^[、。）」ーょっ]/);
+        expect(line.text).not.toMatch(/[（「]$/);
+      }
+    }
+  });
+
+  it("should resolve regional language codes to their base patterns", async () => {
+    expect(await loadHyphenator("pt-BR")).toBeTypeOf("function");
+    expect(await loadHyphenator("ja")).toBeUndefined();
+  });
+});
@@ -0,0 +1,269 @@
+import { Color, PDFPage } from "pdf-lib";
+import createHyphenator, { PatternsDefinition } from "hyphen";
+import { TextDirection, textDirection, visualWords } from "./bidi";
+import { FontStack } from "./fonts";
+import { BreakUnit, splitBreakUnits } from "./line-break";
+
+const SOFT_HYPHEN = "\u00AD";
+
+/** Returns the word with soft hyphens inserted at every break opportunity */
+export type Hyphenator = (word: string) => string;
+
+export type TextAlign = "left" | "right" | "justify";
+
+export interface WrapOptions {
+  font: FontStack;
+  fontSize: number;
+  maxWidth: number;
+  hyphenator?: Hyphenator;
+  /** Paragraph direction, by default that of each paragraph's first letter */
+  direction?: TextDirection;
+}
+
+export interface WrappedLine {
+  text: string;
+  width: number;
+  /** Last line of a paragraph, never stretched when justifying */
+  endsParagraph: boolean;
+  direction: TextDirection;
+}
+
+// Hyphenation patterns for the target languages we translate into,
+// loaded on demand since each pattern file is sizeable
+const patternLoaders: Record<string, () => Promise<{ default: unknown }>> = {
+  bg: () => import("hyphen/patterns/bg.js"),
+  cs: () => import("hyphen/patterns/cs.js"),
+  da: () => import("hyphen/patterns/da.js"),
+  de: () => import("hyphen/patterns/de-1996.js"),
+  el: () => import("hyphen/patterns/el-monoton.js"),
+  en: () => import("hyphen/patterns/en-us.js"),
+  "en-gb": () => import("hyphen/patterns/en-gb.js"),
+  es: () => import("hyphen/patterns/es.js"),
+  et: () => import("hyphen/patterns/et.js"),
+  fi: () => import("hyphen/patterns/fi.js"),
+  fr: () => import("hyphen/patterns/fr.js"),
+  hu: () => import("hyphen/patterns/hu.js"),
+  id: () => import("hyphen/patterns/id.js"),
+  it: () => import("hyphen/patterns/it.js"),
+  lt: () => import("hyphen/patterns/lt.js"),
+  lv: () => import("hyphen/patterns/lv.js"),
+  nb: () => import("hyphen/patterns/nb.js"),
+  nl: () => import("hyphen/patterns/nl.js"),
+  pl: () => import("hyphen/patterns/pl.js"),
+  pt: () => import("hyphen/patterns/pt.js"),
+  ro: () => import("hyphen/patterns/ro.js"),
+  ru: () => import("hyphen/patterns/ru.js"),
+  sk: () => import("hyphen/patterns/sk.js"),
+  sl: () => import("hyphen/patterns/sl.js"),
+  sv: () => import("hyphen/patterns/sv.js"),
+  tr: () => import("hyphen/patterns/tr.js"),
+  uk: () => import("hyphen/patterns/uk.js"),
+};
+
+const hyphenators = new Map<string, Promise<Hyphenator | undefined>>();
+
+/**
+ * Load the hyphenator for a language code such as "fr", "de" or "pt-BR".
+ * Resolves to undefined for languages without hyphenation patterns.
+ */
+export function loadHyphenator(
+  language: string,
+): Promise<Hyphenator | undefined> {
+  const code = language.toLowerCase();
+  const loader = patternLoaders[code] ?? patternLoaders[code.split("-")[0]];
+  if (!loader) return Promise.resolve(undefined);
+
+  if (!hyphenators.has(code)) {
+    hyphenators.set(
+      code,
+      loader().then(
+        (module) =>
+          createHyphenator(module.default as PatternsDefinition) as Hyphenator,
+      ),
+    );
+  }
+
+  return hyphenators.get(code);
+}
+
+/**
+ * Wrap text to a maximum width using the font's real glyph advance widths.
+ * Newlines start new paragraphs. Lines break at spaces, and between Chinese,
+ * Japanese and Korean characters where the line-breaking rules allow. Words
+ * that do not fit are hyphenated when a hyphenator is given, and words wider
+ * than a whole line are broken.
+ */
+export function wrapText(text: string, options: WrapOptions): WrappedLine[] {
+  const lines: WrappedLine[] = [];
+
+  for (const paragraph of text.split(/\n+/)) {
+    const units = splitBreakUnits(paragraph);
+    if (units.length === 0) continue;
+
+    const direction = options.direction ?? textDirection(paragraph);
+    const paragraphLines = wrapParagraph(units, options, direction);
+    paragraphLines[paragraphLines.length - 1].endsParagraph = true;
+    lines.push(...paragraphLines);
+  }
+
+  return lines;
+}
+
+/**
+ * Draw a wrapped line. Justified lines spread their words over the full
+ * width, except for the last line of each paragraph; right-aligned lines end
+ * at `x + maxWidth`, as do right-to-left lines unless justified. Words are
+ * laid out in visual order. Returns where the line was drawn.
+ */
+export function drawWrappedLine(
+  page: PDFPage,
+  line: WrappedLine,
+  options: {
+    x: number;
+    y: number;
+    font: FontStack;
+    fontSize: number;
+    maxWidth: number;
+    align?: TextAlign;
+    color?: Color;
+  },
+): { x: number; width: number } {
+  const { x, y, font, fontSize, maxWidth, color, align } = options;
+  const { direction } = line;
+
+  if (align !== "justify" || line.endsParagraph || !line.text.includes(" ")) {
+    const lineX =
+      align === "right" || direction === "rtl" ? x + maxWidth - line.width : x;
+    font.drawText(page, line.text, {
+      x: lineX,
+      y,
+      size: fontSize,
+      color,
+      direction,
+    });
+    return { x: lineX, width: line.width };
+  }
+
+  const words = visualWords(line.text, direction);
+  const wordsWidth = words.reduce(
+    (total, word) => total + font.widthOfTextAtSize(word, fontSize),
+    0,
+  );
+  const gap = (maxWidth - wordsWidth) / (words.length - 1);
+
+  let cursor = x;
+  for (const word of words) {
+    font.drawText(page, word, {
+      x: cursor,
+      y,
+      size: fontSize,
+      color,
+      direction,
+    });
+    cursor += font.widthOfTextAtSize(word, fontSize) + gap;
+  }
+  return { x, width: maxWidth };
+}
+
+function wrapParagraph(
+  units: BreakUnit[],
+  options: WrapOptions,
+  direction: TextDirection,
+): WrappedLine[] {
+  const { font, fontSize, maxWidth } = options;
+  const measure = (value: string) => font.widthOfTextAtSize(value, fontSize);
+
+  const lines: WrappedLine[] = [];
+  let currentLine = "";
+
+  const pushLine = (value: string) => {
+    lines.push({
+      text: value,
+      width: measure(value),
+      endsParagraph: false,
+      direction,
+    });
+  };
+
+  for (const unit of units) {
+    let word = unit.text;
+    const prefix =
+      currentLine && unit.spaceBefore ? `${currentLine} ` : currentLine;
+    if (measure(prefix + word) <= maxWidth) {
+      currentLine = prefix + word;
+      continue;
+    }
+
+    // Try to fit the start of the word on the current line
+    const split = splitWord(word, prefix, options);
+    if (split) {
+      pushLine(prefix + split.head);
+      word = split.tail;
+    } else if (currentLine) {
+      pushLine(currentLine);
+    }
+    currentLine = "";
+
+    // Break words that are wider than a whole line on their own
+    while (measure(word) > maxWidth) {
+      const broken = splitWord(word, "", options) ?? breakWord(word, options);
+      pushLine(broken.head);
+      word = broken.tail;
+    }
+    currentLine = word;
+  }
+
+  if (currentLine) {
+    pushLine(currentLine);
+  }
+
+  return lines;
+}
+
+// Helper function to find the longest hyphenated start of a word that still
+// fits after the given prefix
+function splitWord(
+  word: string,
+  prefix: string,
+  options: WrapOptions,
+): { head: string; tail: string } | undefined {
+  if (!options.hyphenator) return undefined;
+
+  const parts = options.hyphenator(word).split(SOFT_HYPHEN);
+  for (let count = parts.length - 1; count > 0; count--) {
+    const head = parts.slice(0, count).join("");
+    // Words that already end in a hyphen at the split need no extra one
+    const shown = head.endsWith("-") ? head : `${head}-`;
+    if (
+      options.font.widthOfTextAtSize(prefix + shown, options.fontSize) <=
+      options.maxWidth
+    ) {
+      return { head: shown, tail: parts.slice(count).join("") };
+    }
+  }
+
+  return undefined;
+}
+
+// Helper function to hard-break a word at the last character that fits
+function breakWord(
+  word: string,
+  options: WrapOptions,
+): { head: string; tail: string } {
+  const characters = Array.from(word);
+  let count = 1;
+  while (
+    count < characters.length &&
+    options.font.widthOfTextAtSize(
+      characters.slice(0, count + 1).join(""),
+      options.fontSize,
+    ) <= options.maxWidth
+  ) {
+    count++;
+  }
+
+  return {
+    head: characters.slice(0, count).join(""),
+    tail: characters.slice(count).join(""),
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { Glossary, GlossarySummary } from "@shared/api";
+import { createServer } from "../index";
+import { extractPdfText } from "../pdf/extract";
+
+// Exercise the routes offline with the pseudo-localization provider
+const dataDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "glossaries-"));
+process.env.TRANSLATION_PROVIDER = "pseudo";
+process.env.TRANSLATION_MEMORY_PATH = path.join(dataDirectory, "memory.json");
+process.env.GLOSSARY_PATH = path.join(dataDirectory, "glossaries.json");
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(dataDirectory, { recursive: true, force: true });
+});
+
+async function importGlossary(csv: string): Promise<Glossary> {
+  const params = new URLSearchParams({
+    name: "Legal",
+    team: "legal",
+    sourceLanguage: "en",
+    targetLanguage: "de",
+  });
+  const response = await fetch(`${baseUrl}/api/glossaries?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/csv" },
+    body: csv,
+  });
+  expect(response.status).toBe(201);
+  return response.json();
+}
+
+describe("glossary routes", () => {
+  it("should import, list and export glossaries", async () => {
+    const glossary = await importGlossary(
+      'source,target\nagreement,Vertrag\n"Terms, Conditions",AGB\n',
+    );
+
+    const list: GlossarySummary[] = await (
+      await fetch(`${baseUrl}/api/glossaries?team=legal`)
+    ).json();
+    expect(list).toContainEqual(
+      expect.objectContaining({ id: glossary.id, entryCount: 2 }),
+    );
+
+    const exported = await fetch(
+      `${baseUrl}/api/glossaries/${glossary.id}?format=tsv`,
+    );
+    expect(await exported.text()).toBe(
+      "agreement\tVertrag\nTerms, Conditions\tAGB\n",
+    );
+  });
+
+  it("should reject glossaries with duplicate source terms", async () => {
+    const response = await fetch(`${baseUrl}/api/glossaries`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "Duplicates",
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        entries: [
+          { source: "agreement", target: "Vertrag" },
+          { source: "Agreement", target: "Vereinbarung" },
+        ],
+      }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should enforce glossary terms in translations", async () => {
+    const glossary = await importGlossary("agreement,Vertrag\n");
+
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    pdf.addPage([600, 800]).drawText("Confidentiality Agreement", {
+      x: 50,
+      y: 720,
+      size: 18,
+      font,
+    });
+
+    const response = await fetch(
+      `${baseUrl}/api/translate-pdf?targetLanguage=de&glossaryId=${glossary.id}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/pdf" },
+        body: await pdf.save(),
+      },
+    );
+
+    expect(response.status).toBe(200);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    expect(document.pages[0].text).toContain("Çöñfîdéñtîálîtý Vertrag");
+  });
+
+  it("should reject glossaries for another language pair", async () => {
+    const glossary = await importGlossary("agreement,Vertrag\n");
+
+    const response = await fetch(
+      `${baseUrl}/api/translate-pdf?targetLanguage=fr&glossaryId=${glossary.id}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/pdf" },
+        body: "%PDF-1.4",
+      },
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("GLOSSARY_LANGUAGE_MISMATCH");
+  });
+});
@@ -0,0 +1,169 @@
+import { Request, RequestHandler } from "express";
+import {
+  Glossary,
+  GlossaryInput,
+  GlossarySummary,
+  TranslationError,
+} from "@shared/api";
+import {
+  GLOSSARY_FILE_TYPES,
+  GlossaryFileFormat,
+  formatGlossaryFile,
+  parseGlossaryFile,
+} from "../translation/glossary-files";
+import {
+  getGlossaryStore,
+  parseGlossaryInput,
+} from "../translation/glossaries";
+import { getTranslationProvider } from "../translation/provider";
+
+export const handleListGlossaries: RequestHandler = async (req, res) => {
+  try {
+    const team = typeof req.query.team === "string" ? req.query.team : "";
+    const glossaries = await getGlossaryStore().list(team || undefined);
+    res.json(glossaries.map(toSummary));
+  } catch (error) {
+    console.error("Failed to list glossaries:", error);
+    res.status(500).json({
+      success: false,
+      error: "Could not load glossaries",
+    } as TranslationError);
+  }
+};
+
+export const handleCreateGlossary: RequestHandler = async (req, res) => {
+  const input = readGlossaryInput(req);
+  if ("error" in input) {
+    return res.status(400).json(input);
+  }
+
+  try {
+    const glossary = await getGlossaryStore().create(input);
+    res.status(201).location(`/api/glossaries/${glossary.id}`).json(glossary);
+  } catch (error) {
+    console.error("Failed to create glossary:", error);
+    res.status(500).json({
+      success: false,
+      error: "Could not save glossary",
+    } as TranslationError);
+  }
+};
+
+/**
+ * Return a glossary as JSON, or export its entries with ?format=csv|tsv.
+ */
+export const handleGetGlossary: RequestHandler = async (req, res) => {
+  try {
+    const glossary = await getGlossaryStore().get(req.params.id);
+    if (!glossary) {
+      return res.status(404).json(notFound());
+    }
+
+    const format = req.query.format;
+    if (format === "csv" || format === "tsv") {
+      res.setHeader(
+        "Content-Type",
+        `${GLOSSARY_FILE_TYPES[format]}; charset=utf-8`,
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="glossary-${glossary.id}.${format}"`,
+      );
+      return res.send(formatGlossaryFile(glossary.entries, format));
+    }
+
+    res.json(glossary);
+  } catch (error) {
+    console.error("Failed to load glossary:", error);
+    res.status(500).json({
+      success: false,
+      error: "Could not load glossary",
+    } as TranslationError);
+  }
+};
+
+export const handleUpdateGlossary: RequestHandler = async (req, res) => {
+  const input = readGlossaryInput(req);
+  if ("error" in input) {
+    return res.status(400).json(input);
+  }
+
+  try {
+    const glossary = await getGlossaryStore().update(req.params.id, input);
+    if (!glossary) {
+      return res.status(404).json(notFound());
+    }
+
+    await deleteProviderCopies(glossary.id);
+    res.json(glossary);
+  } catch (error) {
+    console.error("Failed to update glossary:", error);
+    res.status(500).json({
+      success: false,
+      error: "Could not save glossary",
+    } as TranslationError);
+  }
+};
+
+export const handleDeleteGlossary: RequestHandler = async (req, res) => {
+  try {
+    if (!(await getGlossaryStore().delete(req.params.id))) {
+      return res.status(404).json(notFound());
+    }
+
+    await deleteProviderCopies(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error("Failed to delete glossary:", error);
+    res.status(500).json({
+      success: false,
+      error: "Could not delete glossary",
+    } as TranslationError);
+  }
+};
+
+// Helper function to delete the provider's copies of a changed or deleted
+// glossary. The change is saved either way, so a provider that can't delete
+// them right now doesn't fail the request.
+async function deleteProviderCopies(glossaryId: string) {
+  try {
+    await getTranslationProvider().deleteGlossary?.(glossaryId);
+  } catch (error) {
+    console.error("Failed to delete provider glossary:", error);
+  }
+}
+
+// Helper function to read a glossary from a JSON body, or from an imported
+// CSV/TSV body with the name and languages in query params
+function readGlossaryInput(req: Request): GlossaryInput | TranslationError {
+  const format = (
+    Object.keys(GLOSSARY_FILE_TYPES) as GlossaryFileFormat[]
+  ).find((key) => req.is(GLOSSARY_FILE_TYPES[key]));
+  if (!format) {
+    return parseGlossaryInput(req.body);
+  }
+
+  try {
+    return parseGlossaryInput({
+      ...req.query,
+      entries: parseGlossaryFile(
+        typeof req.body === "string" ? req.body : "",
+        format,
+      ),
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid glossary file: ${(error as Error).message}`,
+      code: "INVALID_REQUEST",
+    };
+  }
+}
+
+function toSummary({ entries, ...glossary }: Glossary): GlossarySummary {
+  return { ...glossary, entryCount: entries.length };
+}
+
+function notFound(): TranslationError {
+  return { success: false, error: "Glossary not found" };
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { TranslationJobStatus } from "@shared/api";
+import { createServer } from "../index";
+import { extractPdfText } from "../pdf/extract";
+
+// Exercise the routes offline with the pseudo-localization provider
+process.env.TRANSLATION_PROVIDER = "pseudo";
+process.env.TRANSLATION_MEMORY_PATH = path.join(
+  os.tmpdir(),
+  `translation-memory-${process.pid}-${Date.now()}.json`,
+);
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(process.env.TRANSLATION_MEMORY_PATH, { force: true });
+});
+
+async function buildPdf(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const page = pdf.addPage([600, 800]);
+  page.drawText("Confidentiality Agreement", { x: 50, y: 720, size: 18, font });
+  return pdf.save();
+}
+
+async function waitForJob(jobId: string): Promise<TranslationJobStatus> {
+  for (;;) {
+    const response = await fetch(`${baseUrl}/api/jobs/${jobId}`);
+    const status: TranslationJobStatus = await response.json();
+    if (status.state === "done" || status.state === "failed") {
+      return status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("translation jobs", () => {
+  it("should run a job in the background and serve its result", async () => {
+    const response = await fetch(`${baseUrl}/api/jobs?targetLanguage=de`, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf" },
+      body: await buildPdf(),
+    });
+
+    expect(response.status).toBe(202);
+    const created: TranslationJobStatus = await response.json();
+    expect(created.jobId).toBeTruthy();
+    expect(response.headers.get("location")).toBe(`/api/jobs/${created.jobId}`);
+
+    const status = await waitForJob(created.jobId);
+    expect(status).toMatchObject({
+      success: true,
+      state: "done",
+      originalPages: 1,
+      translatedPages: 1,
+      progress: { pageCount: 1, pagesExtracted: 1 },
+    });
+
+    const result = await fetch(`${baseUrl}/api/jobs/${created.jobId}/result`);
+    expect(result.headers.get("content-type")).toBe("application/pdf");
+    const document = await extractPdfText(
+      new Uint8Array(await result.arrayBuffer()),
+    );
+    expect(document.pages[0].text).toContain("[Çöñfîdéñtîálîtý Ågrééméñt");
+  });
+
+  it("should stream progress events until the job is done", async () => {
+    const response = await fetch(`${baseUrl}/api/jobs?targetLanguage=de`, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf" },
+      body: await buildPdf(),
+    });
+    const created: TranslationJobStatus = await response.json();
+
+    const events = await fetch(`${baseUrl}/api/jobs/${created.jobId}/events`);
+    expect(events.headers.get("content-type")).toBe("text/event-stream");
+
+    // The stream closes by itself after the final event
+    const messages = (await events.text())
+      .trim()
+      .split("\n\n")
+      .map((message) => {
+        const [event, data] = message.split("\n");
+        return {
+          event: event.replace("event: ", ""),
+          status: JSON.parse(data.replace("data: ", "")),
+        };
+      });
+
+    const last = messages[messages.length - 1];
+    expect(last.event).toBe("done");
+    expect(last.status.progress).toMatchObject({
+      pageCount: 1,
+      pagesExtracted: 1,
+      pagesRendered: 1,
+    });
+    expect(last.status.progress.chunksTranslated).toBe(
+      last.status.progress.chunkCount,
+    );
+  });
+
+  it("should report failures on the job instead of the create request", async () => {
+    const response = await fetch(`${baseUrl}/api/jobs?targetLanguage=de`, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf" },
+      body: "%PDF-1.4 truncated",
+    });
+    const created: TranslationJobStatus = await response.json();
+
+    const status = await waitForJob(created.jobId);
+    expect(status.state).toBe("failed");
+    expect(status.success).toBe(false);
+
+    const result = await fetch(`${baseUrl}/api/jobs/${created.jobId}/result`);
+    expect(result.status).toBe(409);
+  });
+
+  it("should return 404 for unknown jobs", async () => {
+    const response = await fetch(`${baseUrl}/api/jobs/unknown`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should refuse jobs on servers that can't run them", async () => {
+    const serverless = createServer({ jobs: false }).listen(0);
+    await new Promise((resolve) => serverless.once("listening", resolve));
+    const { port } = serverless.address() as AddressInfo;
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/api/jobs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/pdf" },
+        body: await buildPdf(),
+      });
+
+      expect(response.status).toBe(501);
+      expect(await response.json()).toMatchObject({
+        code: "JOBS_UNAVAILABLE",
+      });
+    } finally {
+      serverless.close();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { RequestHandler } from "express";
+import { TranslationError, TranslationJobStatus } from "@shared/api";
+import {
+  cancelTranslationJob,
+  getTranslationJob,
+  isJobFinished,
+  startTranslationJob,
+  subscribeToJob,
+  toJobStatus,
+} from "../translation/jobs";
+import { readTranslationRequest } from "../translation/request";
+import { sendPdf } from "./translate-pdf";
+
+export const handleCreateJob: RequestHandler = async (req, res) => {
+  try {
+    const input = await readTranslationRequest(req);
+    if ("error" in input) {
+      return res.status(input.status).json(input.error);
+    }
+
+    // A client that went away during the upload never learns the job ID and
+    // can't cancel the job, so it isn't started, or is cancelled when the
+    // response doesn't reach the client
+    if (res.destroyed) return;
+    const job = startTranslationJob(input);
+    res.on("close", () => {
+      if (!res.writableFinished) cancelTranslationJob(job);
+    });
+
+    res.status(202).location(`/api/jobs/${job.id}`).json(toJobStatus(job));
+  } catch (error) {
+    console.error("Failed to create translation job:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error while creating translation job",
+    } as TranslationError);
+  }
+};
+
+/**
+ * Answer job requests on servers that can't run jobs in the background,
+ * such as serverless functions, pointing clients to /api/translate-pdf.
+ */
+export const handleJobsUnavailable: RequestHandler = (_req, res) => {
+  res.status(501).json({
+    success: false,
+    error:
+      "Translation jobs are not available on this server, use POST /api/translate-pdf instead",
+    code: "JOBS_UNAVAILABLE",
+  } as TranslationError);
+};
+
+export const handleGetJob: RequestHandler = (req, res) => {
+  const job = getTranslationJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: "Translation job not found",
+    } as TranslationError);
+  }
+
+  res.json(toJobStatus(job));
+};
+
+/**
+ * Stream job status as Server-Sent Events: one `progress` event per update
+ * and a final `done` or `failed` event, after which the stream closes.
+ */
+export const handleJobEvents: RequestHandler = (req, res) => {
+  const job = getTranslationJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: "Translation job not found",
+    } as TranslationError);
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const send = (status: TranslationJobStatus) => {
+    const event =
+      status.state === "done" ||
+      status.state === "failed" ||
+      status.state === "cancelled"
+        ? status.state
+        : "progress";
+    res.write(`event: ${event}\ndata: ${JSON.stringify(status)}\n\n`);
+    if (event !== "progress") {
+      res.end();
+    }
+  };
+
+  send(toJobStatus(job));
+  if (isJobFinished(job)) return;
+
+  const unsubscribe = subscribeToJob(job.id, send);
+  res.on("close", unsubscribe);
+};
+
+export const handleCancelJob: RequestHandler = (req, res) => {
+  const job = getTranslationJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: "Translation job not found",
+    } as TranslationError);
+  }
+
+  cancelTranslationJob(job);
+  res.json(toJobStatus(job));
+};
+
+export const handleGetJobResult: RequestHandler = (req, res) => {
+  const job = getTranslationJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      error: "Translation job not found",
+    } as TranslationError);
+  }
+
+  if (job.state === "failed" || job.state === "cancelled") {
+    return res.status(409).json(job.error);
+  }
+
+  if (job.state !== "done") {
+    return res.status(409).json({
+      success: false,
+      error: `Translation job is not finished (${job.state})`,
+    } as TranslationError);
+  }
+
+  sendPdf(res, job.result.pdfBytes);
+};
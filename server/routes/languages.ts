@@ -0,0 +1,28 @@
+import { RequestHandler } from "express";
+import { TranslationError } from "@shared/api";
+import {
+  TranslationProvider,
+  getTranslationProvider,
+} from "../translation/provider";
+
+export const handleLanguages: RequestHandler = async (_req, res) => {
+  let provider: TranslationProvider;
+  try {
+    provider = getTranslationProvider();
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+    } as TranslationError);
+  }
+
+  try {
+    res.json(await provider.getSupportedLanguages());
+  } catch (error) {
+    console.error("Failed to load supported languages:", error);
+    res.status(502).json({
+      success: false,
+      error: "Could not load supported languages",
+    } as TranslationError);
+  }
+};
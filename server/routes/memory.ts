@@ -0,0 +1,29 @@
+import { RequestHandler } from "express";
+import { TranslationError } from "@shared/api";
+import { getTranslationMemory } from "../translation/memory";
+
+export const handleMemoryStats: RequestHandler = async (_req, res) => {
+  try {
+    res.json(await getTranslationMemory().getStats());
+  } catch (error) {
+    console.error("Failed to load translation memory stats:", error);
+    res.status(500).json({
+      success: false,
+      error: "Could not load translation memory stats",
+    } as TranslationError);
+  }
+};
+
+export const handleClearMemory: RequestHandler = async (_req, res) => {
+  try {
+    const memory = getTranslationMemory();
+    await memory.clear();
+    res.json(await memory.getStats());
+  } catch (error) {
+    console.error("Failed to clear translation memory:", error);
+    res.status(500).json({
+      success: false,
+      error: "Could not clear translation memory",
+    } as TranslationError);
+  }
+};
@@ -0,0 +1,400 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { createRequire } from "module";
+import { createHash } from "crypto";
+import { GlobalFonts, createCanvas } from "@napi-rs/canvas";
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  StandardFonts,
+} from "pdf-lib";
+import { createServer } from "../index";
+import { extractPdfText } from "../pdf/extract";
+import { readFormFields } from "../pdf/forms";
+import { addOutline } from "../pdf/outline";
+
+// Exercise the route offline with the pseudo-localization provider
+process.env.TRANSLATION_PROVIDER = "pseudo";
+process.env.TRANSLATION_MEMORY_PATH = path.join(
+  os.tmpdir(),
+  `translation-memory-${process.pid}-${Date.now()}.json`,
+);
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer().listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(process.env.TRANSLATION_MEMORY_PATH, { force: true });
+});
+
+async function buildPdf(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const page = pdf.addPage([600, 800]);
+  page.drawText("Confidentiality Agreement", { x: 50, y: 720, size: 18, font });
+  page.drawText("Please keep this information secret.", {
+    x: 50,
+    y: 680,
+    size: 12,
+    font,
+  });
+  return pdf.save();
+}
+
+// Three pages with the same header and a numbered footer
+async function buildReport(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (let i = 1; i <= 3; i++) {
+    const page = pdf.addPage([600, 800]);
+    page.drawText("Annual Report", { x: 50, y: 770, size: 10, font });
+    page.drawText(`Results of the quarter number ${i}.`, {
+      x: 50,
+      y: 500,
+      size: 12,
+      font,
+    });
+    page.drawText(`Page ${i} of 3`, { x: 50, y: 20, size: 10, font });
+  }
+  return pdf.save();
+}
+
+// A table of figures, numbers right-aligned at x = 300
+async function buildTablePdf(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const page = pdf.addPage([600, 800]);
+  [
+    ["Item", "Total"],
+    ["Revenue", "1,200"],
+    ["Operating costs", "31,800"],
+  ].forEach(([label, value], row) => {
+    const y = 700 - row * 20;
+    page.drawText(label, { x: 50, y, size: 10, font });
+    const x = 300 - font.widthOfTextAtSize(value, 10);
+    page.drawText(value, { x, y, size: 10, font });
+  });
+  return pdf.save();
+}
+
+// A scanned page, the text only exists as pixels
+async function buildScannedPdf(): Promise<Uint8Array> {
+  GlobalFonts.registerFromPath(
+    createRequire(import.meta.url).resolve(
+      "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf",
+    ),
+    "Noto Sans",
+  );
+  const canvas = createCanvas(1200, 800);
+  const context = canvas.getContext("2d");
+  context.fillStyle = "white";
+  context.fillRect(0, 0, 1200, 800);
+  context.fillStyle = "black";
+  context.font = "48px 'Noto Sans'";
+  context.fillText("Confidentiality Agreement", 100, 200);
+
+  const pdf = await PDFDocument.create();
+  const image = await pdf.embedPng(canvas.toBuffer("image/png"));
+  pdf
+    .addPage([600, 400])
+    .drawImage(image, { x: 0, y: 0, width: 600, height: 400 });
+  return pdf.save();
+}
+
+// RC4, the cipher of the PDF standard security handler
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const state = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 255;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 255;
+    j = (j + state[i]) & 255;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[k] = data[k] ^ state[(state[i] + state[j]) & 255];
+  }
+  return output;
+}
+
+// A PDF with only an owner password, encrypted with 40-bit RC4 (revision 2
+// of the standard security handler), which opens without a password
+async function buildEncryptedPdf(): Promise<Uint8Array> {
+  const md5 = (...parts: Uint8Array[]) =>
+    parts.reduce((hash, part) => hash.update(part), createHash("md5")).digest();
+  const padding = Buffer.from(
+    "28BF4E5E4E758A4164004E56FFFA01082E2E00B6D0683E802F0CA9FE6453697A",
+    "hex",
+  );
+  const id = Buffer.alloc(16, 7);
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(-4);
+
+  const owner = rc4(md5(padding).subarray(0, 5), padding);
+  const key = md5(padding, owner, permissions, id).subarray(0, 5);
+
+  const pdf = await PDFDocument.load(await buildPdf(), {
+    updateMetadata: false,
+  });
+  for (const [ref, object] of pdf.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    const { objectNumber } = ref;
+    const objectKey = md5(
+      key,
+      Buffer.from([objectNumber, objectNumber >> 8, objectNumber >> 16, 0, 0]),
+    ).subarray(0, 10);
+    pdf.context.assign(
+      ref,
+      PDFRawStream.of(object.dict, rc4(objectKey, object.contents)),
+    );
+  }
+
+  const hex = (bytes: Uint8Array) =>
+    PDFHexString.of(Buffer.from(bytes).toString("hex"));
+  pdf.context.trailerInfo.Info = undefined;
+  pdf.context.trailerInfo.ID = pdf.context.obj([hex(id), hex(id)]);
+  pdf.context.trailerInfo.Encrypt = pdf.context.register(
+    pdf.context.obj({
+      Filter: "Standard",
+      V: 1,
+      R: 2,
+      O: hex(owner),
+      U: hex(rc4(key, padding)),
+      P: -4,
+    }),
+  );
+  return pdf.save({ useObjectStreams: false });
+}
+
+function translate(query: string, body: Uint8Array | string) {
+  return fetch(`${baseUrl}/api/translate-pdf?${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/pdf" },
+    body,
+  });
+}
+
+describe("POST /api/translate-pdf", () => {
+  it("should return a translated PDF in preserve layout", async () => {
+    const response = await translate("targetLanguage=de", await buildPdf());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/pdf");
+
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    expect(document.pages[0].text).toContain("[Çöñfîdéñtîálîtý Ågrééméñt");
+  });
+
+  it("should mirror the layout of right-to-left translations", async () => {
+    const response = await translate("targetLanguage=ar", await buildPdf());
+
+    expect(response.status).toBe(200);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    // Blocks that started 50pt from the left edge now end 50pt from the right
+    for (const block of document.pages[0].blocks) {
+      expect(block.x + block.width).toBeCloseTo(550, 0);
+    }
+  });
+
+  it("should translate headers and footers once for every page", async () => {
+    const response = await translate("targetLanguage=de", await buildReport());
+
+    expect(response.status).toBe(200);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    document.pages.forEach((page, i) => {
+      expect(page.text).toContain("[Åññüál Répört");
+      expect(page.text).toContain(`[Págé ${i + 1} öf 3`);
+    });
+  });
+
+  it("should keep headers and footers when asked not to translate them", async () => {
+    const response = await translate(
+      "targetLanguage=de&translateHeaders=false",
+      await buildReport(),
+    );
+
+    expect(response.status).toBe(200);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    expect(document.pages[1].text).toContain("Annual Report");
+    expect(document.pages[1].text).toContain("Page 2 of 3");
+    expect(document.pages[1].text).toContain("[Réšültš");
+  });
+
+  it("should translate tables cell by cell", async () => {
+    const response = await translate(
+      "targetLanguage=de",
+      await buildTablePdf(),
+    );
+
+    expect(response.status).toBe(200);
+    const [page] = (
+      await extractPdfText(new Uint8Array(await response.arrayBuffer()))
+    ).pages;
+    expect(page.blocks.map((block) => block.text)).toEqual([
+      "[Îtém ~~]",
+      "[Tötál ~~]",
+      "[Révéñüé ~~~]",
+      "[1,200 ~~]",
+      "[Öpérátîñg çöštš ~~~~~]",
+      "[31,800 ~~]",
+    ]);
+    // Numbers stay right-aligned in their column
+    const total = page.blocks[3];
+    expect(total.x + total.width).toBeCloseTo(300, 0);
+  });
+
+  it("should return a translated PDF in reflow layout", async () => {
+    const response = await translate(
+      "targetLanguage=de&layout=reflow",
+      await buildPdf(),
+    );
+
+    expect(response.status).toBe(200);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    expect(document.pages[0].text).toContain("Powered by Pseudo-localization");
+    expect(document.pages[0].text).toContain("Page 1 of 1");
+  });
+
+  it("should keep form fields fillable with translated tooltips", async () => {
+    const source = await PDFDocument.load(await buildPdf());
+    const field = source.getForm().createTextField("signature");
+    field.acroField.dict.set(
+      PDFName.of("TU"),
+      PDFHexString.fromText("Signature"),
+    );
+    field.addToPage(source.getPage(0), {
+      x: 50,
+      y: 600,
+      width: 200,
+      height: 20,
+    });
+
+    const response = await translate("targetLanguage=de", await source.save());
+
+    expect(response.status).toBe(200);
+    const fields = readFormFields(
+      await PDFDocument.load(await response.arrayBuffer()),
+    );
+    expect(fields).toHaveLength(1);
+    expect(fields[0].name).toBe("signature");
+    expect(fields[0].tooltip).toContain("Šîgñátüré");
+  });
+
+  it("should carry over the outline with translated titles", async () => {
+    const source = await PDFDocument.load(await buildPdf());
+    const [page] = source.getPages();
+    addOutline(
+      source,
+      [{ title: "Confidentiality Agreement", pageIndex: 0, items: [] }],
+      () => ({ page, top: 740 }),
+    );
+
+    const response = await translate(
+      "targetLanguage=de&layout=reflow",
+      await source.save(),
+    );
+
+    expect(response.status).toBe(200);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    expect(document.outline).toHaveLength(1);
+    expect(document.outline[0].title).toContain("Çöñfîdéñtîálîtý Ågrééméñt");
+    expect(document.outline[0].pageIndex).toBe(0);
+  });
+
+  it("should return source and translation in interleaved output", async () => {
+    const response = await translate(
+      "targetLanguage=de&outputMode=interleaved",
+      await buildPdf(),
+    );
+
+    expect(response.status).toBe(200);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    expect(document.pages[0].text).toContain("Bilingual Document");
+    expect(document.pages[0].text).toContain("Confidentiality Agreement");
+    expect(document.pages[0].text).toContain("[Çöñfîdéñtîálîtý Ågrééméñt");
+  });
+
+  it("should translate scanned pages read with OCR", async () => {
+    const response = await translate(
+      "targetLanguage=de&layout=reflow",
+      await buildScannedPdf(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-ocr-confidence")).toMatch(/^1=\d+$/);
+    const document = await extractPdfText(
+      new Uint8Array(await response.arrayBuffer()),
+    );
+    expect(document.pages[0].text).toContain("[Çöñfîdéñtîálîtý Ågrééméñt");
+  }, 30000);
+
+  it("should reject scanned pages when OCR is turned off", async () => {
+    const response = await translate(
+      "targetLanguage=de&ocr=false",
+      await buildScannedPdf(),
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("selectable text");
+  });
+
+  it("should reject unsupported languages with a typed error code", async () => {
+    const response = await translate("targetLanguage=xx", await buildPdf());
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      success: false,
+      code: "UNSUPPORTED_TARGET_LANGUAGE",
+    });
+  });
+
+  it("should only reflow encrypted PDFs it can't redraw", async () => {
+    const encrypted = await buildEncryptedPdf();
+
+    const preserved = await translate("targetLanguage=de", encrypted);
+    expect(preserved.status).toBe(400);
+    expect(await preserved.json()).toMatchObject({ code: "ENCRYPTED_PDF" });
+
+    const reflowed = await translate(
+      "targetLanguage=de&layout=reflow",
+      encrypted,
+    );
+    expect(reflowed.status).toBe(200);
+  });
+
+  it("should reject bodies that are not PDFs", async () => {
+    const response = await translate("targetLanguage=de", "not a pdf");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).success).toBe(false);
+  });
+});
@@ -1,187 +1,47 @@
-import { RequestHandler } from "express";
+import { RequestHandler, Response } from "express";
 import { TranslationResult } from "@shared/api";
-import { PDFDocument, rgb } from "pdf-lib";
-import * as deepl from "deepl-node";
+import { PipelineError, runTranslationPipeline } from "../translation/pipeline";
+import { readTranslationRequest } from "../translation/request";
 
 export const handleTranslatePdf: RequestHandler = async (req, res) => {
-  const startTime = Date.now();
-
   try {
-    // Validate request
-    if (!req.body || req.body.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: "No PDF data provided in request body",
-      } as TranslationResult);
-    }
-
-    // Check if DeepL API key is configured
-    if (!process.env.DEEPL_API_KEY) {
-      return res.status(500).json({
-        success: false,
-        error: "DeepL API key not configured",
-      } as TranslationResult);
-    }
-
-    // Initialize DeepL translator with API key from environment
-    const translator = new deepl.Translator(process.env.DEEPL_API_KEY);
-
-    // Parse the PDF and extract actual text content
-    const pdfBuffer = Buffer.from(req.body);
-    let extractedText = "";
-    let pageCount = 1;
-
-    try {
-      // Load the PDF to get basic info
-      const existingPdfDoc = await PDFDocument.load(pdfBuffer);
-      pageCount = existingPdfDoc.getPageCount();
-      console.log("PDF loaded successfully, page count:", pageCount);
-
-      // For now, since PDF text extraction libraries are problematic in this environment,
-      // let's use the content we know from your Adobe NDA document
-      // In production, you'd integrate with a proper PDF text extraction service
-
-      extractedText = `Confidentiality and Non-Disclosure Agreement
-
-During your discussions and mentorship with Chris Macman, you may learn of proprietary information about Adobe Systems India Private Limited, its business, or clients, or similar information of its subsidiaries or affiliates (collectively "Adobe" and this information, "Confidential Information"). This Confidential Information may be present in many forms, for example, in slide decks or presentations, in emails, or shared with you orally. It may involve Adobe's business plans, strategy, financial information, or any other information which a person exercising reasonable sense would deem to be confidential or proprietary. Confidential Information does not include information that is publicly available outside of your mentorship (unless due to your own actions). When in doubt about anything you receive in your mentorship, you should assume it is Confidential Information unless Chris tells you otherwise.
-
-For any Confidential Information you receive under your mentorship, you agree, as a condition of receiving this mentorship, not to share it with or disclose it to anyone. This includes any final presentations or other publications you make as part of your mentorship. With the understanding that you will need to make a presentation as part of this mentorship, it is your responsibility to work with Chris to determine that your presentation and anything you otherwise plan to share will not contain any Confidential Information.
-
-At the end of your mentorship, you agree to return any and all Confidential Information you've received or to otherwise delete or destroy the same. (If you have followed the guidance in this agreement, then your final presentations should not contain any Confidential Information, and therefore this requirement would not apply to your presentation.)
-
-I agree to the above:
-
-Signature:
-
-Printed Name:
-
-Date:
-
-Your associated educational institution/university:`;
-
-      console.log("Using extracted text for Adobe NDA document");
-    } catch (error) {
-      console.error("PDF parsing error:", error);
-
-      // If even basic PDF loading fails, provide a generic fallback
-      extractedText = `Sample PDF Document Content
-
-This is a professional document that requires translation to French. The document contains important information that needs to be accurately translated while preserving the original formatting and structure.
-
-Key features of this translation service:
-- Professional document translation
-- Layout and formatting preservation
-- Support for multiple languages
-- High-quality AI-powered translation
-
-Thank you for using our PDF translation service.`;
+    const input = await readTranslationRequest(req);
+    if ("error" in input) {
+      return res.status(input.status).json(input.error as TranslationResult);
     }
 
-    // Clean up the extracted text
-    if (extractedText) {
-      extractedText = extractedText
-        .replace(/\s+/g, " ") // Normalize whitespace
-        .trim();
-    }
+    // Stop translating when the client goes away before the response is sent
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
 
-    // If we couldn't extract meaningful text, return an error
-    if (!extractedText || extractedText.length < 20) {
-      return res.status(400).json({
+    const result = await runTranslationPipeline(
+      input,
+      undefined,
+      controller.signal,
+    );
+    console.log("PDF translated in", result.processingTimeMs, "ms");
+
+    // The body is the PDF itself, so OCR confidence travels in a header
+    if (result.ocrPages) {
+      res.setHeader(
+        "X-OCR-Confidence",
+        result.ocrPages
+          .map((page) => `${page.pageNumber}=${Math.round(page.confidence)}`)
+          .join(", "),
+      );
+    }
+    sendPdf(res, result.pdfBytes);
+  } catch (error) {
+    if (error instanceof PipelineError) {
+      return res.status(error.status).json({
         success: false,
-        error:
-          "Could not extract readable text from the PDF. Please ensure the PDF contains selectable text (not just images).",
+        error: error.message,
+        code: error.code,
       } as TranslationResult);
     }
 
-    // Split text into chunks for translation (DeepL has size limits)
-    const textChunks = splitTextIntoChunks(extractedText, 5000);
-
-    // Translate each chunk
-    const translatedChunks: string[] = [];
-    for (const chunk of textChunks) {
-      try {
-        const result = await translator.translateText(chunk, null, "fr");
-        translatedChunks.push(result.text);
-      } catch (error) {
-        console.error("Translation error:", error);
-        return res.status(500).json({
-          success: false,
-          error: "Translation failed",
-        } as TranslationResult);
-      }
-    }
-
-    const translatedText = translatedChunks.join("\n\n");
-
-    // Create a new PDF with the translated text
-    const newPdf = await PDFDocument.create();
-    const page = newPdf.addPage([595.28, 841.89]); // A4 size
-
-    // Set up font and layout
-    const { width, height } = page.getSize();
-    const fontSize = 12;
-    const margin = 50;
-    const maxWidth = width - 2 * margin;
-
-    // Add header
-    page.drawText("Translated Document", {
-      x: margin,
-      y: height - margin,
-      size: 16,
-      color: rgb(0.2, 0.2, 0.2),
-    });
-
-    // Add translated text with basic word wrapping
-    const lines = wrapText(translatedText, maxWidth, fontSize);
-    let yPosition = height - margin - 40;
-
-    for (const line of lines) {
-      if (yPosition < margin + 20) {
-        // Add new page if needed
-        const newPage = newPdf.addPage([595.28, 841.89]);
-        yPosition = height - margin;
-        newPage.drawText(line, {
-          x: margin,
-          y: yPosition,
-          size: fontSize,
-          color: rgb(0, 0, 0),
-        });
-      } else {
-        page.drawText(line, {
-          x: margin,
-          y: yPosition,
-          size: fontSize,
-          color: rgb(0, 0, 0),
-        });
-      }
-      yPosition -= fontSize + 4;
-    }
-
-    // Add footer with timestamp
-    const footer = `Translated on ${new Date().toLocaleDateString()} | Powered by DeepL`;
-    page.drawText(footer, {
-      x: margin,
-      y: 30,
-      size: 10,
-      color: rgb(0.5, 0.5, 0.5),
-    });
-
-    // Generate PDF bytes
-    const pdfBytes = await newPdf.save();
-
-    const processingTime = Date.now() - startTime;
-
-    // Set response headers for PDF download
-    res.setHeader("Content-Type", "application/pdf");
-    res.setHeader(
-      "Content-Disposition",
-      'attachment; filename="translated-document.pdf"',
-    );
-    res.setHeader("Content-Length", pdfBytes.length);
-
-    // Send the PDF
-    res.end(Buffer.from(pdfBytes));
-  } catch (error) {
     console.error("PDF translation error:", error);
     return res.status(500).json({
       success: false,
@@ -190,72 +50,13 @@ Thank you for using our PDF translation service.`;
   }
 };
 
-// Helper function to split text into manageable chunks
-function splitTextIntoChunks(text: string, maxChunkSize: number): string[] {
-  const chunks: string[] = [];
-  const paragraphs = text.split("\n\n");
-
-  let currentChunk = "";
-
-  for (const paragraph of paragraphs) {
-    if (currentChunk.length + paragraph.length > maxChunkSize) {
-      if (currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = paragraph;
-      } else {
-        // Single paragraph is too long, split by sentences
-        const sentences = paragraph.split(". ");
-        for (const sentence of sentences) {
-          if (currentChunk.length + sentence.length > maxChunkSize) {
-            if (currentChunk.length > 0) {
-              chunks.push(currentChunk.trim());
-              currentChunk = sentence + ". ";
-            } else {
-              chunks.push(sentence);
-            }
-          } else {
-            currentChunk += sentence + ". ";
-          }
-        }
-      }
-    } else {
-      currentChunk += paragraph + "\n\n";
-    }
-  }
-
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks;
-}
-
-// Helper function for basic text wrapping
-function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
-  const words = text.split(" ");
-  const lines: string[] = [];
-  let currentLine = "";
-
-  // Approximate character width (this is rough, real implementation would measure text)
-  const charWidth = fontSize * 0.6;
-  const maxCharsPerLine = Math.floor(maxWidth / charWidth);
-
-  for (const word of words) {
-    if ((currentLine + word).length > maxCharsPerLine) {
-      if (currentLine.length > 0) {
-        lines.push(currentLine.trim());
-        currentLine = word + " ";
-      } else {
-        lines.push(word);
-      }
-    } else {
-      currentLine += word + " ";
-    }
-  }
-
-  if (currentLine.length > 0) {
-    lines.push(currentLine.trim());
-  }
-
-  return lines;
+// Helper function to send the generated PDF as a download
+export function sendPdf(res: Response, pdfBytes: Uint8Array) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader(
+    "Content-Disposition",
+    'attachment; filename="translated-document.pdf"',
+  );
+  res.setHeader("Content-Length", pdfBytes.length);
+  res.end(Buffer.from(pdfBytes));
 }
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Glossary } from "@shared/api";
+import { createGlossaryStore, translateWithGlossary } from "./glossaries";
+
+const glossary: Glossary = {
+  id: "legal",
+  name: "Legal",
+  sourceLanguage: "en",
+  targetLanguage: "de",
+  entries: [
+    { source: "Acme Cloud", target: "Acme Cloud" },
+    { source: "agreement", target: "Vertrag" },
+    { source: "agreement period", target: "Vertragslaufzeit" },
+  ],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("translateWithGlossary", () => {
+  it("should send placeholders and put the target terms back", async () => {
+    const sent: string[][] = [];
+    const translated = await translateWithGlossary(
+      ["The Agreement period of Acme  Cloud.", "No agreements here."],
+      glossary,
+      async (texts) => {
+        sent.push(texts);
+        // A provider that pads placeholders with spaces
+        return texts.map((text) => text.replace(/⟦(\d+)⟧/g, "⟦ $1 ⟧"));
+      },
+    );
+
+    expect(sent).toEqual([["The ⟦2⟧ of ⟦0⟧.", "No agreements here."]]);
+    expect(translated).toEqual([
+      "The Vertragslaufzeit of Acme Cloud.",
+      "No agreements here.",
+    ]);
+  });
+
+  it("should keep terms it can't place instead of a broken placeholder", async () => {
+    // Case folding matches the long s, which lowercasing leaves alone
+    const translated = await translateWithGlossary(
+      ["The ſtatute and the agreement."],
+      {
+        ...glossary,
+        entries: [...glossary.entries, { source: "statute", target: "Gesetz" }],
+      },
+      async (texts) => texts,
+    );
+
+    expect(translated).toEqual(["The ſtatute and the Vertrag."]);
+  });
+});
+
+describe("createGlossaryStore", () => {
+  it("should persist created, updated and deleted glossaries", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "glossaries-"));
+    const filePath = path.join(directory, "glossaries.json");
+
+    try {
+      const store = createGlossaryStore(filePath);
+      const legal = await store.create({
+        name: "Legal",
+        team: "legal",
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        entries: [{ source: "agreement", target: "Vertrag" }],
+      });
+      const product = await store.create({
+        name: "Product",
+        sourceLanguage: "en",
+        targetLanguage: "fr",
+        entries: [],
+      });
+      await store.update(legal.id, {
+        ...legal,
+        entries: [{ source: "agreement", target: "Vereinbarung" }],
+      });
+      await store.delete(product.id);
+
+      const reloaded = createGlossaryStore(filePath);
+      expect(await reloaded.list("legal")).toHaveLength(1);
+      expect(await reloaded.get(product.id)).toBeUndefined();
+      expect((await reloaded.get(legal.id)).entries).toEqual([
+        { source: "agreement", target: "Vereinbarung" },
+      ]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should undo changes it could not save", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "glossaries-"));
+    // A directory where the file should be makes every write fail
+    const filePath = path.join(directory, "glossaries.json");
+    fs.mkdirSync(`${filePath}.tmp`);
+
+    try {
+      const store = createGlossaryStore(filePath);
+      const input = {
+        name: "Legal",
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        entries: [],
+      };
+
+      await expect(store.create(input)).rejects.toThrow();
+      expect(await store.list()).toEqual([]);
+
+      // Later writes still go through once the problem is gone
+      fs.rmdirSync(`${filePath}.tmp`);
+      await store.create(input);
+      expect(await createGlossaryStore(filePath).list()).toHaveLength(1);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should read its file again after failing to load it", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "glossaries-"));
+    const filePath = path.join(directory, "glossaries.json");
+    fs.writeFileSync(filePath, "{");
+
+    try {
+      const store = createGlossaryStore(filePath);
+      await expect(store.list()).rejects.toThrow();
+
+      fs.writeFileSync(filePath, JSON.stringify({ glossaries: [] }));
+      expect(await store.list()).toEqual([]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,252 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { z } from "zod";
+import { Glossary, GlossaryInput, TranslationError } from "@shared/api";
+import { readJsonFile, writeJsonFile } from "./json-file";
+
+const MAX_ENTRIES = 10000;
+
+export const glossaryInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  team: z.string().trim().min(1).max(100).optional(),
+  sourceLanguage: z.string().trim().min(2).max(10),
+  targetLanguage: z.string().trim().min(2).max(10),
+  entries: z
+    .array(
+      z.object({
+        source: z.string().trim().min(1).max(1000),
+        target: z.string().trim().min(1).max(1000),
+      }),
+    )
+    .max(MAX_ENTRIES)
+    .refine(
+      (entries) =>
+        new Set(entries.map((entry) => entry.source.toLowerCase())).size ===
+        entries.length,
+      "must not contain the same source term twice",
+    ),
+});
+
+/**
+ * Validate a glossary from a JSON body or an imported file.
+ */
+export function parseGlossaryInput(
+  input: unknown,
+): GlossaryInput | TranslationError {
+  const parsed = glossaryInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid glossary: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+        .join(", ")}`,
+      code: "INVALID_REQUEST",
+    };
+  }
+
+  return parsed.data as GlossaryInput;
+}
+
+export interface GlossaryStore {
+  /** All glossaries, or only those of `team` */
+  list(team?: string): Promise<Glossary[]>;
+  get(id: string): Promise<Glossary | undefined>;
+  create(input: GlossaryInput): Promise<Glossary>;
+  update(id: string, input: GlossaryInput): Promise<Glossary | undefined>;
+  delete(id: string): Promise<boolean>;
+}
+
+let store: GlossaryStore | undefined;
+
+/**
+ * Return the glossary store of this process, kept in the file named by
+ * GLOSSARY_PATH.
+ */
+export function getGlossaryStore(): GlossaryStore {
+  if (!store) {
+    store = createGlossaryStore(
+      process.env.GLOSSARY_PATH ||
+        path.join(process.cwd(), ".data", "glossaries.json"),
+    );
+  }
+
+  return store;
+}
+
+export function createGlossaryStore(filePath: string): GlossaryStore {
+  let glossaries: Promise<Map<string, Glossary>> | undefined;
+  let saving: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!glossaries) {
+      glossaries = readJsonFile<{ glossaries: Glossary[] }>(filePath)
+        .then(
+          (file) =>
+            new Map(
+              (file?.glossaries ?? []).map((glossary) => [
+                glossary.id,
+                glossary,
+              ]),
+            ),
+        )
+        .catch((error) => {
+          // Read the file again next time rather than failing for good. An
+          // empty fallback would be saved over it on the next edit.
+          glossaries = undefined;
+          throw error;
+        });
+    }
+
+    return glossaries;
+  };
+
+  // Saves are queued so that concurrent edits never interleave writes
+  const save = (all: Map<string, Glossary>) => {
+    const write = saving.then(() =>
+      writeJsonFile(filePath, { glossaries: Array.from(all.values()) }),
+    );
+    // A failed write mustn't fail the ones queued after it
+    saving = write.catch(() => {});
+    return write;
+  };
+
+  // Helper function to set or remove a glossary and save the change, undoing
+  // it when the save fails so that nothing is served that isn't on disk
+  const commit = async (
+    all: Map<string, Glossary>,
+    id: string,
+    glossary: Glossary | undefined,
+  ) => {
+    const previous = all.get(id);
+    if (glossary) all.set(id, glossary);
+    else all.delete(id);
+
+    try {
+      await save(all);
+    } catch (error) {
+      if (previous) all.set(id, previous);
+      else all.delete(id);
+      throw error;
+    }
+  };
+
+  return {
+    async list(team) {
+      const all = await load();
+      return Array.from(all.values()).filter(
+        (glossary) => !team || glossary.team === team,
+      );
+    },
+
+    async get(id) {
+      return (await load()).get(id);
+    },
+
+    async create(input) {
+      const all = await load();
+      const now = new Date().toISOString();
+      const glossary: Glossary = {
+        ...input,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await commit(all, glossary.id, glossary);
+      return glossary;
+    },
+
+    async update(id, input) {
+      const all = await load();
+      const existing = all.get(id);
+      if (!existing) return undefined;
+
+      const glossary: Glossary = {
+        ...input,
+        id,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await commit(all, id, glossary);
+      return glossary;
+    },
+
+    async delete(id) {
+      const all = await load();
+      if (!all.has(id)) return false;
+
+      await commit(all, id, undefined);
+      return true;
+    },
+  };
+}
+
+/**
+ * Identifies a glossary's current entries, so that translations made with
+ * an older version are not reused.
+ */
+export function glossaryVersion(glossary: Glossary): string {
+  return `${glossary.id}@${glossary.updatedAt}`;
+}
+
+/**
+ * Enforce glossary terms for providers without native glossary support:
+ * source terms are swapped for numbered placeholders that providers leave
+ * alone, and the placeholders are replaced by the target terms afterwards.
+ */
+export async function translateWithGlossary(
+  texts: string[],
+  glossary: Glossary,
+  translate: (texts: string[]) => Promise<string[]>,
+): Promise<string[]> {
+  if (glossary.entries.length === 0) return translate(texts);
+
+  const terms = createTermPattern(glossary);
+  // Matches the lookup can't place, as case folding is looser than
+  // lowercasing, keep their source term
+  const protectedTexts = texts.map((text) =>
+    text.replace(terms.pattern, (match) => {
+      const index = terms.indexOf(match);
+      return index === undefined ? match : placeholder(index);
+    }),
+  );
+
+  const translated = await translate(protectedTexts);
+
+  // Providers sometimes add spaces inside the brackets
+  return translated.map((text) =>
+    text.replace(
+      /⟦\s*(\d+)\s*⟧/g,
+      (match, index) => glossary.entries[Number(index)]?.target ?? match,
+    ),
+  );
+}
+
+function placeholder(index: number): string {
+  return `⟦${index}⟧`;
+}
+
+// Helper function to build one case-insensitive pattern matching any source
+// term as a whole word, preferring the longest term
+function createTermPattern(glossary: Glossary) {
+  const sources = glossary.entries.map((entry) => entry.source);
+  const alternatives = [...sources]
+    .sort((a, b) => b.length - a.length)
+    .map((source) =>
+      source.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+"),
+    );
+
+  const normalize = (term: string) => term.replace(/\s+/g, " ").toLowerCase();
+  const lookup = new Map(
+    sources.map((source, index) => [normalize(source), index]),
+  );
+
+  return {
+    pattern: new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`,
+      "giu",
+    ),
+    indexOf: (match: string) => lookup.get(normalize(match)),
+  };
+}
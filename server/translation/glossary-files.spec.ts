@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { formatGlossaryFile, parseGlossaryFile } from "./glossary-files";
+
+describe("parseGlossaryFile", () => {
+  it("should read quoted CSV cells and skip the header row", () => {
+    const csv = [
+      "source,target",
+      "Acme Cloud,Acme Cloud",
+      '"Terms, Conditions","Allgemeine ""AGB"""',
+      "",
+      "agreement,Vertrag,en,de",
+    ].join("\r\n");
+
+    expect(parseGlossaryFile(csv, "csv")).toEqual([
+      { source: "Acme Cloud", target: "Acme Cloud" },
+      { source: "Terms, Conditions", target: 'Allgemeine "AGB"' },
+      { source: "agreement", target: "Vertrag" },
+    ]);
+  });
+
+  it("should read TSV lines", () => {
+    expect(parseGlossaryFile("\uFEFFagreement\tVertrag\n", "tsv")).toEqual([
+      { source: "agreement", target: "Vertrag" },
+    ]);
+  });
+
+  it("should reject lines without a target term", () => {
+    expect(() => parseGlossaryFile("agreement\nparty,Partei", "csv")).toThrow(
+      "Line 1",
+    );
+  });
+});
+
+describe("formatGlossaryFile", () => {
+  it("should round-trip entries through CSV", () => {
+    const entries = [
+      { source: "Terms, Conditions", target: 'Allgemeine "AGB"' },
+      { source: "agreement", target: "Vertrag" },
+    ];
+
+    expect(
+      parseGlossaryFile(formatGlossaryFile(entries, "csv"), "csv"),
+    ).toEqual(entries);
+    expect(formatGlossaryFile(entries, "tsv")).toBe(
+      'Terms, Conditions\tAllgemeine "AGB"\nagreement\tVertrag\n',
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { GlossaryEntry } from "@shared/api";
+
+export type GlossaryFileFormat = "csv" | "tsv";
+
+export const GLOSSARY_FILE_TYPES: Record<GlossaryFileFormat, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+};
+
+/**
+ * Read glossary entries from CSV or TSV, one "source,target" pair per line.
+ * Extra columns (like DeepL's language columns) and an optional
+ * "source,target" header row are ignored. Throws on malformed lines.
+ */
+export function parseGlossaryFile(
+  content: string,
+  format: GlossaryFileFormat,
+): GlossaryEntry[] {
+  // Spreadsheet exports often start with a byte order mark
+  const text = content.replace(/^\uFEFF/, "");
+  const rows =
+    format === "csv"
+      ? parseCsvRows(text)
+      : text.split(/\r?\n/).map((line) => line.split("\t"));
+
+  const entries: GlossaryEntry[] = [];
+  rows.forEach((row, index) => {
+    // Blank lines are allowed anywhere
+    if (row.every((cell) => cell.trim().length === 0)) return;
+
+    const [source, target] = row.map((cell) => cell.trim());
+    if (
+      index === 0 &&
+      source.toLowerCase() === "source" &&
+      target?.toLowerCase() === "target"
+    ) {
+      return;
+    }
+
+    if (!source || !target) {
+      throw new Error(`Line ${index + 1} needs a source and a target term`);
+    }
+    entries.push({ source, target });
+  });
+
+  return entries;
+}
+
+/**
+ * Write glossary entries as CSV or TSV, without a header row.
+ */
+export function formatGlossaryFile(
+  entries: GlossaryEntry[],
+  format: GlossaryFileFormat,
+): string {
+  const formatCell =
+    format === "csv"
+      ? (cell: string) =>
+          /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+      : // TSV has no quoting, so separators can't appear in cells
+        (cell: string) => cell.replace(/\s+/g, " ");
+
+  return entries
+    .map(
+      (entry) =>
+        `${formatCell(entry.source)}${format === "csv" ? "," : "\t"}${formatCell(entry.target)}\n`,
+    )
+    .join("");
+}
+
+// Helper function to split CSV into rows of cells, following RFC 4180
+// quoting so that cells may contain commas, quotes and newlines
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("Unterminated quoted field");
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { TranslationJobState, TranslationRequest } from "@shared/api";
+import {
+  cancelTranslationJob,
+  startTranslationJob,
+  subscribeToJob,
+  TranslationJob,
+} from "./jobs";
+import { TranslationProvider } from "./provider";
+import { parseTranslationRequest } from "./request";
+
+afterEach(() => {
+  delete process.env.TRANSLATION_JOB_CONCURRENCY;
+});
+
+async function buildPdf(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  pdf.addPage([600, 800]).drawText("Confidentiality Agreement", {
+    x: 50,
+    y: 720,
+    size: 18,
+    font,
+  });
+  return pdf.save();
+}
+
+// Helper function to create a provider whose translations wait until
+// `release` is called
+function createBlockingProvider() {
+  let release: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const provider: TranslationProvider = {
+    name: "Blocking",
+    async translateBatch(texts) {
+      await released;
+      return texts;
+    },
+    getSupportedLanguages: async () => ({ source: [], target: [] }),
+    getUsage: async () => ({ provider: "Blocking", characterCount: 0 }),
+  };
+  return { provider, release: () => release() };
+}
+
+function waitForState(job: TranslationJob, states: TranslationJobState[]) {
+  return new Promise<void>((resolve) => {
+    if (states.includes(job.state)) return resolve();
+    const unsubscribe = subscribeToJob(job.id, (status) => {
+      if (!states.includes(status.state)) return;
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+describe("translation jobs", () => {
+  it("should queue jobs beyond the concurrency limit", async () => {
+    process.env.TRANSLATION_JOB_CONCURRENCY = "1";
+    const { provider, release } = createBlockingProvider();
+    const input = {
+      pdfData: await buildPdf(),
+      options: parseTranslationRequest({
+        targetLanguage: "de",
+      }) as TranslationRequest,
+      languagePair: { sourceLanguage: null, targetLanguage: "de" },
+      provider,
+    };
+
+    const first = startTranslationJob(input);
+    const second = startTranslationJob(input);
+    const third = startTranslationJob(input);
+    await waitForState(first, ["translating"]);
+
+    expect(second.state).toBe("queued");
+    cancelTranslationJob(third);
+    release();
+
+    await waitForState(second, ["done", "failed"]);
+    expect(first.state).toBe("done");
+    expect(second.state).toBe("done");
+    // Cancelled while queued, so it never started
+    expect(third.state).toBe("cancelled");
+    expect(third.progress.pageCount).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { randomUUID } from "crypto";
+import {
+  TranslationError,
+  TranslationJobProgress,
+  TranslationJobState,
+  TranslationJobStatus,
+} from "@shared/api";
+import {
+  PipelineError,
+  PipelineInput,
+  PipelineResult,
+  runTranslationPipeline,
+} from "./pipeline";
+
+// Finished jobs keep their result for download this long
+const JOB_TTL_MS = 60 * 60 * 1000;
+// Jobs translated at the same time, unless TRANSLATION_JOB_CONCURRENCY says
+// otherwise. Later jobs wait in the queue.
+const DEFAULT_CONCURRENCY = 2;
+
+export interface TranslationJob {
+  id: string;
+  state: TranslationJobState;
+  progress: TranslationJobProgress;
+  createdAt: number;
+  result?: PipelineResult;
+  error?: TranslationError;
+  /** Aborts the running pipeline */
+  controller: AbortController;
+}
+
+export type JobListener = (status: TranslationJobStatus) => void;
+
+// Jobs live in memory, so they only survive as long as this process
+const jobs = new Map<string, TranslationJob>();
+const listeners = new Map<string, Set<JobListener>>();
+// Queued jobs in the order they were created, and how many are running
+const queue: { job: TranslationJob; input: PipelineInput }[] = [];
+let runningJobs = 0;
+
+/**
+ * Queue a translation to run in the background once fewer than
+ * TRANSLATION_JOB_CONCURRENCY jobs are running.
+ * Returns immediately with the new job.
+ */
+export function startTranslationJob(input: PipelineInput): TranslationJob {
+  const job: TranslationJob = {
+    id: randomUUID(),
+    state: "queued",
+    progress: {
+      pageCount: 0,
+      pagesExtracted: 0,
+      chunkCount: 0,
+      chunksTranslated: 0,
+      pagesRendered: 0,
+    },
+    createdAt: Date.now(),
+    controller: new AbortController(),
+  };
+  jobs.set(job.id, job);
+  queue.push({ job, input });
+  runQueuedJobs();
+
+  return job;
+}
+
+/**
+ * Stop a queued or running job. Translation requests already sent are
+ * aborted where the provider supports it; no further requests are made.
+ */
+export function cancelTranslationJob(job: TranslationJob) {
+  if (isJobFinished(job)) return;
+
+  const queued = queue.findIndex((entry) => entry.job === job);
+  if (queued !== -1) queue.splice(queued, 1);
+
+  job.controller.abort();
+  job.state = "cancelled";
+  job.error = {
+    success: false,
+    error: "Translation was cancelled",
+    code: "CANCELLED",
+  };
+  finishJob(job);
+}
+
+export function getTranslationJob(id: string): TranslationJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Listen for status changes of a running job. Returns a function that
+ * removes the listener; finished jobs drop their listeners on their own.
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  let jobListeners = listeners.get(id);
+  if (!jobListeners) {
+    jobListeners = new Set();
+    listeners.set(id, jobListeners);
+  }
+  jobListeners.add(listener);
+
+  return () => {
+    jobListeners.delete(listener);
+  };
+}
+
+export function isJobFinished(job: TranslationJob): boolean {
+  return (
+    job.state === "done" || job.state === "failed" || job.state === "cancelled"
+  );
+}
+
+// Helper function to start queued jobs while there is room for them
+function runQueuedJobs() {
+  const concurrency =
+    Number(process.env.TRANSLATION_JOB_CONCURRENCY) || DEFAULT_CONCURRENCY;
+
+  while (runningJobs < concurrency && queue.length > 0) {
+    const { job, input } = queue.shift();
+    runningJobs++;
+    runJob(job, input).finally(() => {
+      runningJobs--;
+      runQueuedJobs();
+    });
+  }
+}
+
+// Helper function to run a job's pipeline and record how it ended
+function runJob(job: TranslationJob, input: PipelineInput): Promise<void> {
+  return runTranslationPipeline(
+    input,
+    ({ state, ...progress }) => {
+      job.state = state;
+      job.progress = progress;
+      notify(job);
+    },
+    job.controller.signal,
+  )
+    .then((result) => {
+      if (isJobFinished(job)) return;
+      job.state = "done";
+      job.result = result;
+      finishJob(job);
+    })
+    .catch((error) => {
+      // Cancelled jobs were already finished by cancelTranslationJob
+      if (isJobFinished(job)) return;
+      if (!(error instanceof PipelineError)) {
+        console.error("Translation job error:", error);
+      }
+      job.state = "failed";
+      job.error = {
+        success: false,
+        error:
+          error instanceof PipelineError
+            ? error.message
+            : "Internal server error during PDF translation",
+        code: error instanceof PipelineError ? error.code : undefined,
+      };
+      finishJob(job);
+    });
+}
+
+// Helper function to tell listeners a job has ended and schedule its removal
+function finishJob(job: TranslationJob) {
+  notify(job);
+  listeners.delete(job.id);
+  setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref();
+}
+
+// Helper function to push the current status to everyone listening
+function notify(job: TranslationJob) {
+  const status = toJobStatus(job);
+  listeners.get(job.id)?.forEach((listener) => listener(status));
+}
+
+export function toJobStatus(job: TranslationJob): TranslationJobStatus {
+  return {
+    success: job.state !== "failed" && job.state !== "cancelled",
+    jobId: job.id,
+    state: job.state,
+    progress: job.progress,
+    originalPages: job.result?.originalPages,
+    translatedPages: job.result?.translatedPages,
+    processingTimeMs: job.result?.processingTimeMs,
+    memory: job.result?.memory,
+    ocrPages: job.result?.ocrPages,
+    error: job.error?.error,
+    code: job.error?.code,
+  };
+}
@@ -0,0 +1,30 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Read a JSON file, or undefined when it doesn't exist yet.
+ */
+export async function readJsonFile<T>(
+  filePath: string,
+): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Replace a JSON file atomically, so that a crash mid-write never leaves a
+ * truncated file behind.
+ */
+export async function writeJsonFile(
+  filePath: string,
+  data: unknown,
+): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data));
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { LanguagesResponse } from "@shared/api";
+import { resolveLanguagePair } from "./languages";
+
+const languages: LanguagesResponse = {
+  source: [
+    { code: "EN", name: "English" },
+    { code: "DE", name: "German" },
+  ],
+  target: [
+    { code: "DE", name: "German", supportsFormality: true },
+    { code: "EN-GB", name: "English (British)", supportsFormality: false },
+    { code: "EN-US", name: "English (American)", supportsFormality: false },
+  ],
+};
+
+describe("resolveLanguagePair", () => {
+  it("should return the provider's codes", () => {
+    expect(
+      resolveLanguagePair(
+        { sourceLanguage: "en-us", targetLanguage: "de" },
+        languages,
+      ),
+    ).toEqual({ sourceLanguage: "EN", targetLanguage: "DE" });
+  });
+
+  it("should suggest regional variants for ambiguous targets", () => {
+    expect(resolveLanguagePair({ targetLanguage: "en" }, languages)).toEqual({
+      success: false,
+      error: 'Target language "en" is ambiguous, use one of: EN-GB, EN-US',
+      code: "UNSUPPORTED_TARGET_LANGUAGE",
+    });
+  });
+
+  it("should only allow strict formality where the target has it", () => {
+    expect(
+      resolveLanguagePair(
+        { targetLanguage: "de", formality: "more" },
+        languages,
+      ),
+    ).toEqual({ sourceLanguage: null, targetLanguage: "DE" });
+    expect(
+      resolveLanguagePair(
+        { targetLanguage: "en-gb", formality: "prefer_more" },
+        languages,
+      ),
+    ).toEqual({ sourceLanguage: null, targetLanguage: "EN-GB" });
+    expect(
+      resolveLanguagePair(
+        { targetLanguage: "en-gb", formality: "more" },
+        languages,
+      ),
+    ).toMatchObject({ code: "UNSUPPORTED_FORMALITY" });
+  });
+});
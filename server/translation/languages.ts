@@ -0,0 +1,137 @@
+import {
+  LanguageOption,
+  LanguagesResponse,
+  TranslationError,
+  TranslationRequest,
+} from "@shared/api";
+
+// Languages offered by providers without a fixed language list
+const COMMON_LANGUAGE_OPTIONS: LanguageOption[] = [
+  { code: "ar", name: "Arabic" },
+  { code: "bg", name: "Bulgarian" },
+  { code: "cs", name: "Czech" },
+  { code: "da", name: "Danish" },
+  { code: "de", name: "German" },
+  { code: "el", name: "Greek" },
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "et", name: "Estonian" },
+  { code: "fi", name: "Finnish" },
+  { code: "fr", name: "French" },
+  { code: "he", name: "Hebrew" },
+  { code: "hu", name: "Hungarian" },
+  { code: "id", name: "Indonesian" },
+  { code: "it", name: "Italian" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "lt", name: "Lithuanian" },
+  { code: "lv", name: "Latvian" },
+  { code: "nb", name: "Norwegian" },
+  { code: "nl", name: "Dutch" },
+  { code: "pl", name: "Polish" },
+  { code: "pt", name: "Portuguese" },
+  { code: "ro", name: "Romanian" },
+  { code: "ru", name: "Russian" },
+  { code: "sk", name: "Slovak" },
+  { code: "sl", name: "Slovenian" },
+  { code: "sv", name: "Swedish" },
+  { code: "th", name: "Thai" },
+  { code: "tr", name: "Turkish" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "zh", name: "Chinese" },
+];
+
+export const COMMON_LANGUAGES: LanguagesResponse = {
+  source: COMMON_LANGUAGE_OPTIONS,
+  target: COMMON_LANGUAGE_OPTIONS,
+};
+
+export interface LanguagePair {
+  /** null lets the provider detect the source language */
+  sourceLanguage: string | null;
+  targetLanguage: string;
+}
+
+/**
+ * Validate the requested languages against the provider's supported lists.
+ * Returns the provider's canonical codes, or a TranslationError describing
+ * what is wrong with the request.
+ */
+export function resolveLanguagePair(
+  request: TranslationRequest,
+  languages: LanguagesResponse,
+): LanguagePair | TranslationError {
+  const { sourceLanguage, targetLanguage } = request;
+
+  const target = findLanguage(languages.target, targetLanguage);
+  if (!target) {
+    const variants = languages.target
+      .filter((language) =>
+        language.code
+          .toLowerCase()
+          .startsWith(`${targetLanguage}-`.toLowerCase()),
+      )
+      .map((language) => language.code);
+
+    return {
+      success: false,
+      error:
+        variants.length > 0
+          ? `Target language "${targetLanguage}" is ambiguous, use one of: ${variants.join(", ")}`
+          : `Target language "${targetLanguage}" is not supported`,
+      code: "UNSUPPORTED_TARGET_LANGUAGE",
+    };
+  }
+
+  // Strict formality fails on languages known not to have it, the
+  // "prefer_" variants fall back instead
+  if (
+    (request.formality === "more" || request.formality === "less") &&
+    target.supportsFormality === false
+  ) {
+    return {
+      success: false,
+      error: `Target language "${target.code}" has no formal or informal variant, use formality "prefer_${request.formality}" to allow falling back`,
+      code: "UNSUPPORTED_FORMALITY",
+    };
+  }
+
+  if (!sourceLanguage) {
+    return { sourceLanguage: null, targetLanguage: target.code };
+  }
+
+  // Source languages are never regional, so "en-US" means "en"
+  const source =
+    findLanguage(languages.source, sourceLanguage) ??
+    findLanguage(languages.source, baseLanguage(sourceLanguage));
+  if (!source) {
+    return {
+      success: false,
+      error: `Source language "${sourceLanguage}" is not supported`,
+      code: "UNSUPPORTED_SOURCE_LANGUAGE",
+    };
+  }
+
+  if (baseLanguage(source.code) === baseLanguage(target.code)) {
+    return {
+      success: false,
+      error: `Cannot translate from "${source.code}" to "${target.code}"`,
+      code: "UNSUPPORTED_LANGUAGE_PAIR",
+    };
+  }
+
+  return { sourceLanguage: source.code, targetLanguage: target.code };
+}
+
+function findLanguage(
+  options: LanguageOption[],
+  code: string,
+): LanguageOption | undefined {
+  return options.find(
+    (option) => option.code.toLowerCase() === code.toLowerCase(),
+  );
+}
+
+export function baseLanguage(code: string): string {
+  return code.split("-")[0].toLowerCase();
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  createTranslationMemory,
+  similarity,
+  TranslationMemory,
+  TranslationMemoryOptions,
+} from "./memory";
+
+const scope = { provider: "DeepL", sourceLanguage: "en", targetLanguage: "de" };
+
+let directory: string;
+let filePath: string;
+let memories: TranslationMemory[];
+
+// Helper function to open a memory whose pending writes settle before the
+// directory is removed
+function openMemory(options?: TranslationMemoryOptions) {
+  const memory = createTranslationMemory(filePath, options);
+  memories.push(memory);
+  return memory;
+}
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "translation-memory-"));
+  filePath = path.join(directory, "memory.json");
+  memories = [];
+});
+
+afterEach(async () => {
+  await Promise.all(memories.map((memory) => memory.flush()));
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("createTranslationMemory", () => {
+  it("should serve exact matches regardless of whitespace", async () => {
+    const memory = openMemory();
+    await memory.store(
+      [{ source: "The parties agree as follows.", target: "Die Parteien…" }],
+      scope,
+    );
+
+    const { translations, report } = await memory.lookup(
+      ["The parties  agree\nas follows.", "Something else entirely."],
+      scope,
+    );
+
+    expect(translations).toEqual(["Die Parteien…", undefined]);
+    expect(report.exactMatches).toBe(1);
+  });
+
+  it("should keep language pairs and providers apart", async () => {
+    const memory = openMemory();
+    await memory.store([{ source: "Agreement", target: "Vertrag" }], scope);
+
+    const french = await memory.lookup(["Agreement"], {
+      ...scope,
+      targetLanguage: "fr",
+    });
+    const libre = await memory.lookup(["Agreement"], {
+      ...scope,
+      provider: "LibreTranslate",
+    });
+
+    expect(french.translations).toEqual([undefined]);
+    expect(libre.translations).toEqual([undefined]);
+  });
+
+  it("should report fuzzy matches without serving them", async () => {
+    const memory = openMemory();
+    await memory.store(
+      [
+        {
+          source: "This agreement is governed by the laws of Germany.",
+          target: "Dieser Vertrag unterliegt deutschem Recht.",
+        },
+      ],
+      scope,
+    );
+
+    const { translations, report } = await memory.lookup(
+      ["This agreement is governed by the laws of France."],
+      scope,
+    );
+
+    expect(translations).toEqual([undefined]);
+    expect(report.fuzzyMatchCount).toBe(1);
+    expect(report.fuzzyMatches[0]).toMatchObject({
+      matchedSource: "This agreement is governed by the laws of Germany.",
+      matchedTarget: "Dieser Vertrag unterliegt deutschem Recht.",
+    });
+    expect(report.fuzzyMatches[0].score).toBeCloseTo(8 / 9);
+  });
+
+  it("should persist entries and hit-rate stats to its file", async () => {
+    const first = openMemory();
+    await first.store([{ source: "Agreement", target: "Vertrag" }], scope);
+    await first.lookup(["Agreement", "Signature"], scope);
+    await first.flush();
+
+    const second = openMemory();
+    const { translations } = await second.lookup(["Agreement"], scope);
+
+    expect(translations).toEqual(["Vertrag"]);
+    expect(await second.getStats()).toMatchObject({
+      entryCount: 1,
+      lookups: 3,
+      exactHits: 2,
+      hitRate: 2 / 3,
+    });
+  });
+
+  it("should only write its file once changes settle", async () => {
+    const memory = openMemory({ saveDelay: 60000 });
+    await memory.store([{ source: "Agreement", target: "Vertrag" }], scope);
+    await memory.lookup(["Agreement"], scope);
+
+    expect(fs.existsSync(filePath)).toBe(false);
+    await memory.flush();
+    expect(fs.existsSync(filePath)).toBe(true);
+  });
+
+  it("should save the stats of lookups made without changes", async () => {
+    const memory = openMemory({ saveDelay: 10 });
+    await memory.lookup(["Agreement"], scope);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const second = openMemory();
+    expect(await second.getStats()).toMatchObject({ lookups: 1 });
+  });
+
+  it("should evict the least recently used entries beyond its limit", async () => {
+    const memory = openMemory({ maxEntries: 2 });
+    await memory.store(
+      [
+        { source: "One", target: "Eins" },
+        { source: "Two", target: "Zwei" },
+      ],
+      scope,
+    );
+    await memory.lookup(["One"], scope);
+    await memory.store([{ source: "Three", target: "Drei" }], scope);
+
+    const { translations } = await memory.lookup(
+      ["One", "Two", "Three"],
+      scope,
+    );
+
+    expect(translations).toEqual(["Eins", undefined, "Drei"]);
+    expect(await memory.getStats()).toMatchObject({ entryCount: 2 });
+  });
+});
+
+describe("similarity", () => {
+  it("should rate word-level edits against the longer segment", () => {
+    expect(similarity(["a", "b", "c", "d"], ["a", "b", "c", "d"])).toBe(1);
+    expect(similarity(["a", "b", "c", "d"], ["a", "x", "c", "d"])).toBe(0.75);
+    expect(similarity(["a", "b"], ["a", "b", "c", "d"])).toBe(0.5);
+  });
+});
@@ -0,0 +1,407 @@
+import path from "path";
+import {
+  TranslationMemoryMatch,
+  TranslationMemoryReport,
+  TranslationMemoryStats,
+} from "@shared/api";
+import { readJsonFile, writeJsonFile } from "./json-file";
+import { LanguagePair } from "./languages";
+
+// Segments at least this similar to a stored one are reported as fuzzy
+// matches. They are still sent to the provider, since a single changed word
+// can change the meaning of a clause.
+const FUZZY_THRESHOLD = 0.75;
+// Report at most this many fuzzy matches per translation
+const MAX_REPORTED_MATCHES = 20;
+// Keep at most this many entries, evicting the least recently used ones
+const DEFAULT_MAX_ENTRIES = 50000;
+// Wait this long after a change before writing the file, so that a burst of
+// translations is saved in one write
+const DEFAULT_SAVE_DELAY = 2000;
+
+/** Which translations a segment can be served from */
+export interface MemoryScope extends LanguagePair {
+  provider: string;
+  /** Version of the glossary the translations were made with, if any */
+  glossary?: string;
+  /** Formality and other text options, serialized */
+  textOptions?: string;
+}
+
+interface MemoryEntry {
+  provider: string;
+  glossary?: string;
+  textOptions?: string;
+  sourceLanguage: string | null;
+  targetLanguage: string;
+  source: string;
+  target: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+interface MemoryFile {
+  version: 1;
+  stats: { lookups: number; exactHits: number; fuzzyHits: number };
+  entries: MemoryEntry[];
+}
+
+export interface MemoryLookup {
+  /** Stored translation for each segment, undefined on a miss */
+  translations: (string | undefined)[];
+  report: TranslationMemoryReport;
+}
+
+/**
+ * Persistent store of source segment to translated segment, per language
+ * pair and provider. Exact matches are served without asking the provider.
+ */
+export interface TranslationMemory {
+  lookup(segments: string[], scope: MemoryScope): Promise<MemoryLookup>;
+  store(
+    pairs: { source: string; target: string }[],
+    scope: MemoryScope,
+  ): Promise<void>;
+  getStats(): Promise<TranslationMemoryStats>;
+  clear(): Promise<void>;
+  /** Write pending changes to the file now */
+  flush(): Promise<void>;
+}
+
+export interface TranslationMemoryOptions {
+  maxEntries?: number;
+  /** Milliseconds to wait after a change before writing the file */
+  saveDelay?: number;
+}
+
+// Entries of one scope, with an index from each word to the entries that
+// contain it, so that fuzzy matching only scores segments sharing words
+interface ScopeEntries {
+  entries: Set<MemoryEntry>;
+  words: Map<string, Set<MemoryEntry>>;
+}
+
+let memory: TranslationMemory | undefined;
+
+/**
+ * Return the translation memory of this process, stored in the file named
+ * by TRANSLATION_MEMORY_PATH and holding up to TRANSLATION_MEMORY_MAX_ENTRIES
+ * segments.
+ */
+export function getTranslationMemory(): TranslationMemory {
+  if (!memory) {
+    memory = createTranslationMemory(
+      process.env.TRANSLATION_MEMORY_PATH ||
+        path.join(process.cwd(), ".data", "translation-memory.json"),
+      {
+        maxEntries:
+          Number(process.env.TRANSLATION_MEMORY_MAX_ENTRIES) || undefined,
+      },
+    );
+  }
+
+  return memory;
+}
+
+export function createTranslationMemory(
+  filePath: string,
+  {
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    saveDelay = DEFAULT_SAVE_DELAY,
+  }: TranslationMemoryOptions = {},
+): TranslationMemory {
+  // Entries from least to most recently used
+  const entries = new Map<string, MemoryEntry>();
+  // Entries grouped by scope, for fuzzy matching
+  const scopes = new Map<string, ScopeEntries>();
+  const stats = { lookups: 0, exactHits: 0, fuzzyHits: 0 };
+
+  let loaded: Promise<void> | undefined;
+  let saving: Promise<void> = Promise.resolve();
+  let saveTimer: NodeJS.Timeout | undefined;
+  // Whether the file is behind the memory
+  let dirty = false;
+
+  // Move an entry to the most recently used end
+  const touch = (key: string, entry: MemoryEntry) => {
+    entries.delete(key);
+    entries.set(key, entry);
+  };
+
+  const add = (entry: MemoryEntry) => {
+    const key = entryKey(entry, entry.source);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.target = entry.target;
+      existing.lastUsedAt = entry.lastUsedAt;
+      touch(key, existing);
+      return;
+    }
+
+    entries.set(key, entry);
+    const scope = scopeKey(entry);
+    if (!scopes.has(scope)) {
+      scopes.set(scope, { entries: new Set(), words: new Map() });
+    }
+    const { entries: scopeEntries, words } = scopes.get(scope);
+    scopeEntries.add(entry);
+    for (const word of new Set(entry.source.split(" "))) {
+      if (!words.has(word)) words.set(word, new Set());
+      words.get(word).add(entry);
+    }
+  };
+
+  const remove = (key: string, entry: MemoryEntry) => {
+    entries.delete(key);
+    const scope = scopeKey(entry);
+    const { entries: scopeEntries, words } = scopes.get(scope);
+    scopeEntries.delete(entry);
+    for (const word of new Set(entry.source.split(" "))) {
+      words.get(word)?.delete(entry);
+      if (words.get(word)?.size === 0) words.delete(word);
+    }
+    if (scopeEntries.size === 0) scopes.delete(scope);
+  };
+
+  const evict = () => {
+    for (const [key, entry] of entries) {
+      if (entries.size <= maxEntries) break;
+      remove(key, entry);
+    }
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = readJsonFile<MemoryFile>(filePath)
+        .then((file) => {
+          // A missing file is just an empty memory
+          if (!file) return;
+          Object.assign(stats, file.stats);
+          file.entries.forEach(add);
+          evict();
+        })
+        .catch((error) => {
+          console.error("Could not load translation memory:", error);
+        });
+    }
+
+    return loaded;
+  };
+
+  // Saves are queued so that concurrent translations never interleave writes
+  const save = () => {
+    clearTimeout(saveTimer);
+    saveTimer = undefined;
+    saving = saving.then(async () => {
+      if (!dirty) return;
+      dirty = false;
+      const file: MemoryFile = {
+        version: 1,
+        stats,
+        entries: Array.from(entries.values()),
+      };
+      try {
+        await writeJsonFile(filePath, file);
+      } catch (error) {
+        dirty = true;
+        console.error("Could not save translation memory:", error);
+      }
+    });
+
+    return saving;
+  };
+
+  const scheduleSave = () => {
+    dirty = true;
+    if (saveTimer) return;
+    saveTimer = setTimeout(save, saveDelay);
+    // A pending save shouldn't keep the process alive
+    saveTimer.unref();
+  };
+
+  return {
+    async lookup(segments, scope) {
+      await load();
+
+      const now = Date.now();
+      const candidates = scopes.get(scopeKey(scope));
+      const fuzzyMatches: TranslationMemoryMatch[] = [];
+
+      const translations = segments.map((segment) => {
+        stats.lookups++;
+
+        const key = entryKey(scope, segment);
+        const entry = entries.get(key);
+        if (entry) {
+          stats.exactHits++;
+          entry.hits++;
+          entry.lastUsedAt = now;
+          touch(key, entry);
+          return entry.target;
+        }
+
+        const match = candidates && findFuzzyMatch(segment, candidates);
+        if (match) {
+          stats.fuzzyHits++;
+          fuzzyMatches.push(match);
+        }
+        return undefined;
+      });
+
+      // Hits and stats are saved with the changes that follow within the
+      // save delay, not on every lookup
+      scheduleSave();
+
+      return {
+        translations,
+        report: {
+          segmentCount: segments.length,
+          exactMatches: translations.filter((text) => text !== undefined)
+            .length,
+          fuzzyMatchCount: fuzzyMatches.length,
+          fuzzyMatches: fuzzyMatches
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_REPORTED_MATCHES),
+        },
+      };
+    },
+
+    async store(pairs, scope) {
+      await load();
+
+      const now = Date.now();
+      for (const { source, target } of pairs) {
+        add({
+          provider: scope.provider,
+          glossary: scope.glossary,
+          textOptions: scope.textOptions,
+          sourceLanguage: scope.sourceLanguage,
+          targetLanguage: scope.targetLanguage,
+          source: normalizeSegment(source),
+          target,
+          createdAt: now,
+          lastUsedAt: now,
+          hits: 0,
+        });
+      }
+      evict();
+
+      scheduleSave();
+    },
+
+    async getStats() {
+      await load();
+      return {
+        entryCount: entries.size,
+        lookups: stats.lookups,
+        exactHits: stats.exactHits,
+        fuzzyHits: stats.fuzzyHits,
+        hitRate: stats.lookups > 0 ? stats.exactHits / stats.lookups : 0,
+      };
+    },
+
+    async clear() {
+      await load();
+      entries.clear();
+      scopes.clear();
+      Object.assign(stats, { lookups: 0, exactHits: 0, fuzzyHits: 0 });
+      dirty = true;
+      await save();
+    },
+
+    async flush() {
+      await load();
+      await save();
+    },
+  };
+}
+
+// Whitespace differences from PDF extraction shouldn't cause misses
+function normalizeSegment(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function scopeKey(scope: MemoryScope): string {
+  return [
+    scope.provider,
+    scope.glossary ?? "",
+    scope.textOptions ?? "",
+    scope.sourceLanguage ?? "",
+    scope.targetLanguage,
+  ]
+    .join("\u0000")
+    .toLowerCase();
+}
+
+function entryKey(scope: MemoryScope, segment: string): string {
+  return `${scopeKey(scope)}\u0000${normalizeSegment(segment)}`;
+}
+
+// Helper function to find the most similar stored segment, if any is
+// similar enough to be worth reporting
+function findFuzzyMatch(
+  segment: string,
+  candidates: ScopeEntries,
+): TranslationMemoryMatch | undefined {
+  const words = normalizeSegment(segment).split(" ");
+  let best: TranslationMemoryMatch | undefined;
+
+  // Count the words of the segment each stored segment contains. An edit
+  // distance of d leaves at least longest - d words in common, so segments
+  // sharing too few words can't be similar enough and are never scored.
+  const shared = new Map<MemoryEntry, number>();
+  for (const word of words) {
+    for (const candidate of candidates.words.get(word) ?? []) {
+      shared.set(candidate, (shared.get(candidate) ?? 0) + 1);
+    }
+  }
+
+  for (const [candidate, count] of shared) {
+    const candidateWords = candidate.source.split(" ");
+    const longest = Math.max(words.length, candidateWords.length);
+    const threshold = Math.max(FUZZY_THRESHOLD, best?.score ?? 0);
+
+    // Skip segments whose length or shared words alone rule out a close match
+    const lengthRatio = Math.min(words.length, candidateWords.length) / longest;
+    if (lengthRatio < threshold || count / longest < threshold) continue;
+
+    const score = similarity(words, candidateWords);
+    if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+      best = {
+        source: segment,
+        matchedSource: candidate.source,
+        matchedTarget: candidate.target,
+        score,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Word-level similarity between 0 and 1: one minus the edit distance over
+ * the length of the longer segment, as translation tools usually rate
+ * fuzzy matches.
+ */
+export function similarity(a: string[], b: string[]): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  // Levenshtein distance keeping only the previous row
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
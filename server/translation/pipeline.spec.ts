@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { TranslationRequest } from "@shared/api";
+import { extractPdfText } from "../pdf/extract";
+import { runTranslationPipeline } from "./pipeline";
+import { TranslationProvider } from "./provider";
+import { parseTranslationRequest } from "./request";
+
+// Writes the numbers 1 and 2 out as words, as some providers do
+const wordyProvider: TranslationProvider = {
+  name: "Wordy",
+  async translateBatch(texts) {
+    return texts.map((text) =>
+      text.replace(/\b1\b/, "one").replace(/\b2\b/, "two").toUpperCase(),
+    );
+  },
+  getSupportedLanguages: async () => ({ source: [], target: [] }),
+  getUsage: async () => ({ provider: "Wordy", characterCount: 0 }),
+};
+
+// Three pages with a numbered footer
+async function buildReport(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (let i = 1; i <= 3; i++) {
+    const page = pdf.addPage([600, 800]);
+    page.drawText(`Results of the quarter number ${i + 2}.`, {
+      x: 50,
+      y: 500,
+      size: 12,
+      font,
+    });
+    page.drawText(`Page ${i} of 3`, { x: 50, y: 20, size: 10, font });
+  }
+  return pdf.save();
+}
+
+describe("runTranslationPipeline", () => {
+  it("should translate repeats on their own when their numbers can't be filled in", async () => {
+    const options = parseTranslationRequest({
+      targetLanguage: "de",
+    }) as TranslationRequest;
+
+    const { pdfBytes } = await runTranslationPipeline({
+      pdfData: await buildReport(),
+      options,
+      languagePair: { sourceLanguage: "en", targetLanguage: "de" },
+      provider: wordyProvider,
+    });
+
+    const document = await extractPdfText(pdfBytes);
+    expect(document.pages.map((page) => page.text)).toEqual([
+      expect.stringContaining("PAGE ONE OF 3"),
+      expect.stringContaining("PAGE TWO OF 3"),
+      expect.stringContaining("PAGE 3 OF 3"),
+    ]);
+  });
+});
@@ -0,0 +1,422 @@
+import { PDFDocument, PageSizes } from "pdf-lib";
+import {
+  Glossary,
+  OcrPageReport,
+  TranslationErrorCode,
+  TranslationJobProgress,
+  TranslationJobState,
+  TranslationMemoryReport,
+  TranslationRequest,
+} from "@shared/api";
+import { ExtractedDocument, TextBlock, extractPdfText } from "../pdf/extract";
+import { renderBilingual } from "../pdf/bilingual";
+import { renderOverlay } from "../pdf/overlay";
+import { FlowParagraph, ReflowOptions, renderReflow } from "../pdf/reflow";
+import { formFieldTexts, readFormFields, retextFormFields } from "../pdf/forms";
+import { joinLines } from "../pdf/layout";
+import { outlineTitles, retitleOutline } from "../pdf/outline";
+import { fillRunningText, findRunningText } from "../pdf/running-text";
+import { Hyphenator, loadHyphenator } from "../pdf/wrap";
+import { LanguagePair } from "./languages";
+import { TranslationMemory } from "./memory";
+import { TranslationProvider } from "./provider";
+import { translateSegments } from "./translate";
+
+/**
+ * An expected failure of the pipeline, carrying the HTTP status and error
+ * code to report to the client.
+ */
+export class PipelineError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: TranslationErrorCode,
+  ) {
+    super(message);
+    this.name = "PipelineError";
+  }
+}
+
+export interface PipelineInput {
+  pdfData: Uint8Array;
+  options: TranslationRequest;
+  languagePair: LanguagePair;
+  provider: TranslationProvider;
+  /** Serves and stores repeated segments when given */
+  memory?: TranslationMemory;
+  glossary?: Glossary;
+}
+
+export interface PipelineProgress extends TranslationJobProgress {
+  state: TranslationJobState;
+}
+
+export interface PipelineResult {
+  pdfBytes: Uint8Array;
+  originalPages: number;
+  translatedPages: number;
+  processingTimeMs: number;
+  memory?: TranslationMemoryReport;
+  ocrPages?: OcrPageReport[];
+}
+
+/**
+ * Extract, translate and render a PDF, reporting progress along the way.
+ * Aborting `signal` stops the pipeline at the next page or translation
+ * request with a CANCELLED error.
+ */
+export async function runTranslationPipeline(
+  input: PipelineInput,
+  onProgress: (progress: PipelineProgress) => void = () => {},
+  signal?: AbortSignal,
+): Promise<PipelineResult> {
+  const { pdfData, options, languagePair, provider, memory, glossary } = input;
+  let memoryReport: TranslationMemoryReport | undefined;
+  const startTime = Date.now();
+  const progress: PipelineProgress = {
+    state: "extracting",
+    pageCount: 0,
+    pagesExtracted: 0,
+    chunkCount: 0,
+    chunksTranslated: 0,
+    pagesRendered: 0,
+  };
+  const report = (update: Partial<PipelineProgress>) => {
+    checkCancelled(signal);
+    Object.assign(progress, update);
+    onProgress({ ...progress });
+  };
+
+  report({ state: "extracting" });
+
+  // Parse the PDF and extract its text content page by page
+  let document: ExtractedDocument;
+  try {
+    document = await extractPdfText(pdfData, {
+      ocr: options.ocr,
+      onPage: (pagesExtracted, pageCount) =>
+        report({ pagesExtracted, pageCount }),
+    });
+    console.log("PDF loaded successfully, page count:", document.pageCount);
+  } catch (error) {
+    if (error instanceof PipelineError) throw error;
+    console.error("PDF parsing error:", error);
+    throw new PipelineError(
+      "Could not read the PDF file. It may be corrupted or encrypted.",
+      400,
+    );
+  }
+
+  // Clean up the extracted text
+  const extractedText = document.pages
+    .map((page) => page.text)
+    .filter((text) => text.length > 0)
+    .join("\n\n")
+    .replace(/\s+/g, " ") // Normalize whitespace
+    .trim();
+
+  // If we couldn't extract meaningful text, return an error
+  if (!extractedText || extractedText.length < 20) {
+    throw new PipelineError(
+      options.ocr
+        ? "Could not extract readable text from the PDF, even with OCR. Please ensure the PDF contains legible text."
+        : "Could not extract readable text from the PDF. Please ensure the PDF contains selectable text (not just images).",
+      400,
+    );
+  }
+
+  // Pages read with OCR, so the client can warn about uncertain text
+  const ocrPages: OcrPageReport[] = document.pages
+    .filter((page) => page.ocrConfidence !== undefined)
+    .map((page) => ({
+      pageNumber: page.pageNumber,
+      confidence: page.ocrConfidence,
+    }));
+
+  // Hyphenation patterns follow the target language, when we have them
+  const hyphenator = options.hyphenate
+    ? await loadHyphenator(languagePair.targetLanguage)
+    : undefined;
+  // Those of the source language tell hyphenated words from compounds when
+  // lines are joined
+  const sourceHyphenator = languagePair.sourceLanguage
+    ? await loadHyphenator(languagePair.sourceLanguage)
+    : undefined;
+
+  // Headers and footers repeat on every page: new documents have their own,
+  // and preserved pages translate each of them once
+  const runningText = findRunningText(document);
+  const runningBlocks = new Set(runningText.flatMap((text) => text.blocks));
+
+  // Bookmark titles are translated in the same batches as the body text.
+  // Follow-up requests leave them out, and add to the memory report.
+  const titles = outlineTitles(document.outline);
+  let outline = document.outline;
+
+  const translate = async (segments: string[], followUp = false) => {
+    report({ state: "translating" });
+    try {
+      const translated = await translateSegments(
+        provider,
+        followUp ? segments : [...segments, ...titles],
+        languagePair,
+        {
+          onBatch: (chunksTranslated, chunkCount) =>
+            report({ chunksTranslated, chunkCount }),
+          signal,
+          memory,
+          glossary,
+          textOptions: {
+            formality: options.formality,
+            preserveFormatting: options.preserveFormatting,
+            splitSentences: options.splitSentences,
+            context: options.context,
+            modelType: options.modelType,
+          },
+          onMemoryLookup: (lookup) => {
+            memoryReport =
+              followUp && memoryReport
+                ? combineMemoryReports(memoryReport, lookup)
+                : lookup;
+          },
+        },
+      );
+      if (!followUp) {
+        outline = retitleOutline(
+          document.outline,
+          translated.slice(segments.length),
+        );
+      }
+      return translated.slice(0, segments.length);
+    } catch (error) {
+      checkCancelled(signal);
+      if (error instanceof PipelineError) throw error;
+      console.error("Translation error:", error);
+      throw new PipelineError("Translation failed", 500);
+    }
+  };
+
+  // New documents share page size, header and footer
+  const flowOptions: ReflowOptions = {
+    pageSize: resolvePageSize(options.pageSize, document),
+    language: languagePair.targetLanguage,
+    header: "Translated Document",
+    footer: `Translated on ${new Date().toLocaleDateString()} | Powered by ${provider.name}`,
+    align: options.align,
+    hyphenator,
+    onPage: (pagesRendered) => report({ pagesRendered }),
+  };
+
+  // Bilingual modes: pair every block with its translation
+  if (
+    options.outputMode === "side-by-side" ||
+    options.outputMode === "interleaved"
+  ) {
+    const paragraphs = collectParagraphs(
+      document,
+      runningBlocks,
+      sourceHyphenator,
+    );
+    const targets = await translate(
+      paragraphs.map((paragraph) => paragraph.text),
+    );
+
+    report({ state: "rendering" });
+    const { pdfBytes, pageCount } = await renderBilingual(
+      paragraphs.map(({ text, ...paragraph }, i) => ({
+        ...paragraph,
+        source: text,
+        target: targets[i],
+      })),
+      options.outputMode,
+      { ...flowOptions, header: "Bilingual Document", outline },
+    );
+
+    return {
+      pdfBytes,
+      originalPages: document.pageCount,
+      translatedPages: pageCount,
+      processingTimeMs: Date.now() - startTime,
+      memory: memoryReport,
+      ocrPages: ocrPages.length > 0 ? ocrPages : undefined,
+    };
+  }
+
+  // Layout-preserving mode: translate block by block and draw each
+  // translation back over the original page. Form fields keep working, so
+  // their tooltips, options and default texts are translated too.
+  if (options.layout === "preserve") {
+    const blocks = document.pages.flatMap((page) =>
+      page.blocks.filter((block) => !runningBlocks.has(block)),
+    );
+    const translatedRunningText = options.translateHeaders ? runningText : [];
+    const source = await loadSourcePdf(pdfData);
+    const fields = readFormFields(source);
+    const translated = await translate([
+      ...blocks.map((block) => joinLines(block.text, sourceHyphenator)),
+      ...translatedRunningText.map((text) => text.text),
+      ...formFieldTexts(fields),
+    ]);
+
+    const blockTranslations = new Map<TextBlock, string>();
+    blocks.forEach((block, i) => blockTranslations.set(block, translated[i]));
+    // Repeats the shared translation can't be fitted to, such as footers
+    // whose numbers it reorders, are translated on their own
+    const unfilled: TextBlock[] = [];
+    translatedRunningText.forEach((text, i) => {
+      const repeats = fillRunningText(text, translated[blocks.length + i]);
+      text.blocks.forEach((block, j) => {
+        if (repeats[j]) blockTranslations.set(block, repeats[j]);
+        else unfilled.push(block);
+      });
+    });
+    if (unfilled.length > 0) {
+      const ownTranslations = await translate(
+        unfilled.map((block) => joinLines(block.text, sourceHyphenator)),
+        true,
+      );
+      unfilled.forEach((block, i) =>
+        blockTranslations.set(block, ownTranslations[i]),
+      );
+    }
+
+    // Regroup the translations by page, untranslated blocks left blank
+    const translations = document.pages.map((page) =>
+      page.blocks.map((block) => blockTranslations.get(block) ?? ""),
+    );
+
+    report({ state: "rendering" });
+    const pdfBytes = await renderOverlay(source, document, translations, {
+      language: languagePair.targetLanguage,
+      align: options.align,
+      hyphenator,
+      outline,
+      formFields: retextFormFields(
+        fields,
+        translated.slice(blocks.length + translatedRunningText.length),
+      ),
+      runningText,
+      onPage: (pagesRendered) => report({ pagesRendered }),
+    });
+
+    return {
+      pdfBytes,
+      originalPages: document.pageCount,
+      translatedPages: document.pageCount,
+      processingTimeMs: Date.now() - startTime,
+      memory: memoryReport,
+      ocrPages: ocrPages.length > 0 ? ocrPages : undefined,
+    };
+  }
+
+  // Translate block by block, so that every paragraph keeps its links
+  const paragraphs = collectParagraphs(
+    document,
+    runningBlocks,
+    sourceHyphenator,
+  );
+  const translatedBlocks = await translate(
+    paragraphs.map((paragraph) => paragraph.text),
+  );
+
+  // Create a new PDF with the translated text
+  report({ state: "rendering" });
+  const { pdfBytes, pageCount } = await renderReflow(
+    paragraphs.map((paragraph, i) => ({
+      ...paragraph,
+      text: translatedBlocks[i],
+    })),
+    { ...flowOptions, outline },
+  );
+
+  return {
+    pdfBytes,
+    originalPages: document.pageCount,
+    translatedPages: pageCount,
+    processingTimeMs: Date.now() - startTime,
+    memory: memoryReport,
+    ocrPages: ocrPages.length > 0 ? ocrPages : undefined,
+  };
+}
+
+// Helper function to stop the pipeline once the caller gave up on it.
+// 499 is the de facto status for requests closed by the client.
+function checkCancelled(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw new PipelineError("Translation was cancelled", 499, "CANCELLED");
+  }
+}
+
+// Helper function to load the source PDF to draw over, once for its form
+// and its pages. pdf.js reads PDFs encrypted with just an owner password,
+// but pdf-lib can't decrypt them, so their layout can't be preserved.
+async function loadSourcePdf(pdfData: Uint8Array): Promise<PDFDocument> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(pdfData, { ignoreEncryption: true });
+  } catch (error) {
+    console.error("PDF parsing error:", error);
+    throw new PipelineError(
+      "Could not read the PDF file. It may be corrupted or encrypted.",
+      400,
+    );
+  }
+
+  if (source.isEncrypted) {
+    throw new PipelineError(
+      "The PDF is encrypted, so its layout can't be preserved. Remove the encryption, or translate it with the reflow layout.",
+      400,
+      "ENCRYPTED_PDF",
+    );
+  }
+
+  return source;
+}
+
+// Helper function to pick the output page size, matching the source
+// document's first page unless a standard size was requested
+function resolvePageSize(
+  pageSize: TranslationRequest["pageSize"],
+  document: ExtractedDocument,
+): [number, number] {
+  if (pageSize === "a4") return PageSizes.A4;
+  if (pageSize === "letter") return PageSizes.Letter;
+
+  const firstPage = document.pages[0];
+  return firstPage ? [firstPage.width, firstPage.height] : PageSizes.A4;
+}
+
+// Helper function to add up the memory lookups of several requests
+function combineMemoryReports(
+  first: TranslationMemoryReport,
+  second: TranslationMemoryReport,
+): TranslationMemoryReport {
+  return {
+    segmentCount: first.segmentCount + second.segmentCount,
+    exactMatches: first.exactMatches + second.exactMatches,
+    fuzzyMatchCount: first.fuzzyMatchCount + second.fuzzyMatchCount,
+    fuzzyMatches: [...first.fuzzyMatches, ...second.fuzzyMatches].sort(
+      (a, b) => b.score - a.score,
+    ),
+  };
+}
+
+// Helper function to list every block with text as a paragraph, along with
+// its page and links, leaving out the `excluded` blocks
+function collectParagraphs(
+  document: ExtractedDocument,
+  excluded: Set<TextBlock>,
+  hyphenator: Hyphenator | undefined,
+): FlowParagraph[] {
+  return document.pages
+    .flatMap((page, pageIndex) =>
+      page.blocks
+        .filter((block) => !excluded.has(block))
+        .map((block) => ({
+          text: joinLines(block.text, hyphenator),
+          sourcePage: pageIndex,
+          links: block.links,
+        })),
+    )
+    .filter((paragraph) => paragraph.text.length > 0);
+}
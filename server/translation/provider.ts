@@ -0,0 +1,100 @@
+import {
+  Glossary,
+  LanguagesResponse,
+  TranslationTextOptions,
+  UsageResponse,
+} from "@shared/api";
+import { LanguagePair } from "./languages";
+import { createDeepLProvider } from "./providers/deepl";
+import { createLibreTranslateProvider } from "./providers/libretranslate";
+import { createOpenAIProvider } from "./providers/openai";
+import { createPseudoProvider } from "./providers/pseudo";
+
+export interface TranslateBatchOptions extends TranslationTextOptions {
+  /** Aborts the request when the translation is cancelled */
+  signal?: AbortSignal;
+  /** Only passed to providers that support this glossary natively */
+  glossary?: Glossary;
+}
+
+/**
+ * A machine translation backend. Implementations wrap one service each and
+ * are selected with the TRANSLATION_PROVIDER environment variable.
+ */
+export interface TranslationProvider {
+  /** Human-readable name, e.g. for "Powered by ..." footers */
+  name: string;
+  /** Translate texts independently, results keep the input order */
+  translateBatch(
+    texts: string[],
+    languagePair: LanguagePair,
+    options?: TranslateBatchOptions,
+  ): Promise<string[]>;
+  /**
+   * Whether the provider can apply the glossary itself. Glossaries are
+   * otherwise enforced around translateBatch by swapping terms out.
+   */
+  supportsGlossary?(
+    glossary: Glossary,
+    languagePair: LanguagePair,
+  ): Promise<boolean>;
+  /** Delete the provider's own copies of a changed or deleted glossary */
+  deleteGlossary?(glossaryId: string): Promise<void>;
+  getSupportedLanguages(): Promise<LanguagesResponse>;
+  getUsage(): Promise<UsageResponse>;
+}
+
+export type ProviderName = "deepl" | "libretranslate" | "openai" | "pseudo";
+
+let provider: TranslationProvider | undefined;
+
+/**
+ * Return the provider configured for this process.
+ * Throws when the selected provider is missing its configuration.
+ */
+export function getTranslationProvider(): TranslationProvider {
+  if (!provider) {
+    provider = createTranslationProvider(
+      (process.env.TRANSLATION_PROVIDER || "deepl") as ProviderName,
+    );
+  }
+
+  return provider;
+}
+
+export function createTranslationProvider(
+  name: ProviderName,
+): TranslationProvider {
+  switch (name) {
+    case "deepl":
+      if (!process.env.DEEPL_API_KEY) {
+        throw new Error("DeepL API key not configured");
+      }
+      return createDeepLProvider(process.env.DEEPL_API_KEY);
+
+    case "libretranslate":
+      if (!process.env.LIBRETRANSLATE_URL) {
+        throw new Error("LibreTranslate URL not configured");
+      }
+      return createLibreTranslateProvider({
+        url: process.env.LIBRETRANSLATE_URL,
+        apiKey: process.env.LIBRETRANSLATE_API_KEY,
+      });
+
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OpenAI API key not configured");
+      }
+      return createOpenAIProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+      });
+
+    case "pseudo":
+      return createPseudoProvider();
+
+    default:
+      throw new Error(`Unknown translation provider "${name}"`);
+  }
+}
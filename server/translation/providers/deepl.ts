@@ -0,0 +1,160 @@
+import * as deepl from "deepl-node";
+import { Glossary, LanguageOption, LanguagesResponse } from "@shared/api";
+import { glossaryVersion } from "../glossaries";
+import { baseLanguage } from "../languages";
+import { TranslationProvider } from "../provider";
+
+export function createDeepLProvider(apiKey: string): TranslationProvider {
+  const translator = new deepl.Translator(apiKey);
+
+  // The supported language lists rarely change, so fetch them once
+  let languages: Promise<LanguagesResponse> | undefined;
+  let glossaryPairs: Promise<readonly deepl.GlossaryLanguagePair[]> | undefined;
+  // DeepL copies of our glossaries, by glossary ID
+  const glossaries = new Map<
+    string,
+    { version: string; glossaryId: Promise<deepl.GlossaryId> }
+  >();
+
+  // Helper function to delete the DeepL copies of a glossary other than
+  // `keep`. Copies are found by the glossary ID in their name, so that those
+  // made before a restart are deleted too.
+  const deleteCopies = async (id: string, keep?: deepl.GlossaryId) => {
+    const copies = await translator.listGlossaries();
+    await Promise.all(
+      copies
+        .filter(
+          (copy) => copy.name.endsWith(`(${id})`) && copy.glossaryId !== keep,
+        )
+        .map((copy) => translator.deleteGlossary(copy)),
+    );
+  };
+
+  // Helper function to get the DeepL glossary matching the current version
+  // of a glossary. DeepL glossaries can't be edited, so outdated ones are
+  // replaced.
+  const syncGlossary = (glossary: Glossary) => {
+    const version = glossaryVersion(glossary);
+    const synced = glossaries.get(glossary.id);
+    if (synced?.version === version) return synced.glossaryId;
+
+    const glossaryId = translator
+      .createGlossary(
+        `${glossary.name} (${glossary.id})`,
+        baseLanguage(glossary.sourceLanguage) as deepl.LanguageCode,
+        baseLanguage(glossary.targetLanguage) as deepl.LanguageCode,
+        new deepl.GlossaryEntries({
+          entries: Object.fromEntries(
+            glossary.entries.map((entry) => [entry.source, entry.target]),
+          ),
+        }),
+      )
+      .then((info) => {
+        deleteCopies(glossary.id, info.glossaryId).catch((error) => {
+          console.error("Failed to delete outdated DeepL glossaries:", error);
+        });
+        return info.glossaryId;
+      })
+      .catch((error) => {
+        // Don't cache failures, the next request should retry
+        if (glossaries.get(glossary.id)?.glossaryId === glossaryId) {
+          glossaries.delete(glossary.id);
+        }
+        throw error;
+      });
+
+    glossaries.set(glossary.id, { version, glossaryId });
+    return glossaryId;
+  };
+
+  return {
+    name: "DeepL",
+
+    async translateBatch(texts, languagePair, options = {}) {
+      const glossary = options.glossary
+        ? await syncGlossary(options.glossary)
+        : undefined;
+
+      // deepl-node can't abort a request, so only avoid starting one
+      options.signal?.throwIfAborted();
+      const results = await translator.translateText(
+        texts,
+        languagePair.sourceLanguage as deepl.SourceLanguageCode | null,
+        languagePair.targetLanguage as deepl.TargetLanguageCode,
+        {
+          glossary,
+          formality: options.formality,
+          preserveFormatting: options.preserveFormatting,
+          splitSentences: options.splitSentences,
+          context: options.context,
+          modelType: options.modelType,
+        },
+      );
+      return results.map((result) => result.text);
+    },
+
+    async supportsGlossary(_glossary, languagePair) {
+      // Glossaries need an explicit source language
+      if (!languagePair.sourceLanguage) return false;
+
+      if (!glossaryPairs) {
+        glossaryPairs = translator.getGlossaryLanguagePairs();
+      }
+
+      try {
+        const source = baseLanguage(languagePair.sourceLanguage);
+        const target = baseLanguage(languagePair.targetLanguage);
+        return (await glossaryPairs).some(
+          (pair) => pair.sourceLang === source && pair.targetLang === target,
+        );
+      } catch (error) {
+        // Fall back to enforcing the glossary ourselves
+        console.error("Failed to load DeepL glossary language pairs:", error);
+        glossaryPairs = undefined;
+        return false;
+      }
+    },
+
+    async deleteGlossary(glossaryId) {
+      glossaries.delete(glossaryId);
+      await deleteCopies(glossaryId);
+    },
+
+    getSupportedLanguages() {
+      if (!languages) {
+        languages = Promise.all([
+          translator.getSourceLanguages(),
+          translator.getTargetLanguages(),
+        ])
+          .then(([source, target]) => ({
+            source: source.map(toLanguageOption),
+            target: target.map(toLanguageOption),
+          }))
+          .catch((error) => {
+            // Don't cache failures, the next request should retry
+            languages = undefined;
+            throw error;
+          });
+      }
+
+      return languages;
+    },
+
+    async getUsage() {
+      const usage = await translator.getUsage();
+      return {
+        provider: "DeepL",
+        characterCount: usage.character?.count ?? 0,
+        characterLimit: usage.character?.limit,
+      };
+    },
+  };
+}
+
+function toLanguageOption(language: deepl.Language): LanguageOption {
+  return {
+    code: language.code,
+    name: language.name,
+    supportsFormality: language.supportsFormality,
+  };
+}
@@ -0,0 +1,86 @@
+import { LanguagesResponse } from "@shared/api";
+import { TranslationProvider } from "../provider";
+
+interface LibreTranslateLanguage {
+  code: string;
+  name: string;
+  targets?: string[];
+}
+
+/**
+ * Adapter for a LibreTranslate server (https://libretranslate.com),
+ * typically self-hosted next to this service.
+ */
+export function createLibreTranslateProvider(config: {
+  url: string;
+  apiKey?: string;
+}): TranslationProvider {
+  const baseUrl = config.url.replace(/\/+$/, "");
+  let characterCount = 0;
+  let languages: Promise<LanguagesResponse> | undefined;
+
+  const post = async <T>(
+    path: string,
+    body: object,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, api_key: config.apiKey }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `LibreTranslate request failed: HTTP ${response.status} ${await response.text()}`,
+      );
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    name: "LibreTranslate",
+
+    async translateBatch(texts, languagePair, options = {}) {
+      const result = await post<{ translatedText: string[] }>(
+        "/translate",
+        {
+          q: texts,
+          source: languagePair.sourceLanguage ?? "auto",
+          target: languagePair.targetLanguage,
+          format: "text",
+        },
+        options.signal,
+      );
+      characterCount += texts.reduce((total, text) => total + text.length, 0);
+      return result.translatedText;
+    },
+
+    getSupportedLanguages() {
+      if (!languages) {
+        languages = fetch(`${baseUrl}/languages`)
+          .then(async (response) => {
+            if (!response.ok) {
+              throw new Error(
+                `LibreTranslate request failed: HTTP ${response.status}`,
+              );
+            }
+            const list = (await response.json()) as LibreTranslateLanguage[];
+            const options = list.map(({ code, name }) => ({ code, name }));
+            return { source: options, target: options };
+          })
+          .catch((error) => {
+            languages = undefined;
+            throw error;
+          });
+      }
+
+      return languages;
+    },
+
+    // LibreTranslate has no quota endpoint, report what this process sent
+    async getUsage() {
+      return { provider: "LibreTranslate", characterCount };
+    },
+  };
+}
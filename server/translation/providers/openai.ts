@@ -0,0 +1,100 @@
+import { COMMON_LANGUAGES } from "../languages";
+import { TranslationProvider } from "../provider";
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string } }[];
+}
+
+/**
+ * Adapter for OpenAI-compatible chat completion APIs (OpenAI, Azure OpenAI,
+ * vLLM, Ollama, ...). Texts are sent as a JSON array and must come back as
+ * a JSON array of the same length.
+ */
+export function createOpenAIProvider(config: {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}): TranslationProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+  let characterCount = 0;
+
+  return {
+    name: "OpenAI",
+
+    async translateBatch(texts, languagePair, options = {}) {
+      const source = languagePair.sourceLanguage
+        ? `from the language with code "${languagePair.sourceLanguage}" `
+        : "";
+      const formality = options.formality?.endsWith("more")
+        ? " Use formal language."
+        : options.formality?.endsWith("less")
+          ? " Use informal language."
+          : "";
+      const context = options.context
+        ? ` The texts come from a document with this context, which is not to be translated: ${JSON.stringify(options.context)}`
+        : "";
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0,
+          messages: [
+            {
+              role: "system",
+              content:
+                `Translate each string of the JSON array ${source}into the language with code "${languagePair.targetLanguage}".${formality}${context} ` +
+                "Reply with only a JSON array of the translated strings, in the same order and of the same length.",
+            },
+            { role: "user", content: JSON.stringify(texts) },
+          ],
+        }),
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `OpenAI request failed: HTTP ${response.status} ${await response.text()}`,
+        );
+      }
+
+      const completion = (await response.json()) as ChatCompletionResponse;
+      const translated = parseJsonArray(completion.choices[0]?.message.content);
+      if (translated.length !== texts.length) {
+        throw new Error(
+          `OpenAI returned ${translated.length} translations for ${texts.length} texts`,
+        );
+      }
+
+      characterCount += texts.reduce((total, text) => total + text.length, 0);
+      return translated;
+    },
+
+    // Language models have no fixed list, offer the common languages
+    async getSupportedLanguages() {
+      return COMMON_LANGUAGES;
+    },
+
+    async getUsage() {
+      return { provider: "OpenAI", characterCount };
+    },
+  };
+}
+
+// Helper function to read a JSON array from a reply that may be wrapped in
+// a markdown code fence
+function parseJsonArray(content: string | undefined): string[] {
+  const json = (content ?? "")
+    .trim()
+    .replace(/^```(?:json)?\s*/, "")
+    .replace(/\s*```$/, "");
+  const parsed = JSON.parse(json);
+
+  if (!Array.isArray(parsed)) {
+    throw new Error("OpenAI reply is not a JSON array");
+  }
+  return parsed.map(String);
+}
@@ -0,0 +1,60 @@
+import { COMMON_LANGUAGES } from "../languages";
+import { TranslationProvider } from "../provider";
+
+const ACCENTED: Record<string, string> = {
+  a: "á",
+  c: "ç",
+  e: "é",
+  i: "î",
+  n: "ñ",
+  o: "ö",
+  s: "š",
+  u: "ü",
+  y: "ý",
+  z: "ž",
+  A: "Å",
+  C: "Ç",
+  E: "É",
+  I: "Î",
+  N: "Ñ",
+  O: "Ö",
+  S: "Š",
+  U: "Ü",
+  Y: "Ý",
+  Z: "Ž",
+};
+
+/**
+ * Offline provider for tests and development. "Translates" by
+ * pseudo-localizing: letters get accents, text grows by about a third like
+ * real translations often do, and brackets reveal truncation.
+ */
+export function createPseudoProvider(): TranslationProvider {
+  let characterCount = 0;
+
+  return {
+    name: "Pseudo-localization",
+
+    async translateBatch(texts) {
+      characterCount += texts.reduce((total, text) => total + text.length, 0);
+      return texts.map(pseudoLocalize);
+    },
+
+    async getSupportedLanguages() {
+      return COMMON_LANGUAGES;
+    },
+
+    async getUsage() {
+      return { provider: "Pseudo-localization", characterCount };
+    },
+  };
+}
+
+export function pseudoLocalize(text: string): string {
+  const accented = text.replace(
+    /[a-zA-Z]/g,
+    (letter) => ACCENTED[letter] ?? letter,
+  );
+  const padding = "~".repeat(Math.ceil(text.length / 3));
+  return `[${accented} ${padding}]`;
+}
@@ -0,0 +1,181 @@
+import { Request } from "express";
+import { z } from "zod";
+import {
+  Glossary,
+  LanguagesResponse,
+  TranslationError,
+  TranslationRequest,
+} from "@shared/api";
+import { getGlossaryStore } from "./glossaries";
+import { baseLanguage, resolveLanguagePair } from "./languages";
+import { PipelineInput } from "./pipeline";
+import { getTranslationMemory } from "./memory";
+import { TranslationProvider, getTranslationProvider } from "./provider";
+
+// Query params and multipart fields arrive as strings
+const booleanParam = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((value) => value === "true"),
+]);
+
+export const translationRequestSchema = z.object({
+  sourceLanguage: z.string().trim().min(2).max(10).optional(),
+  targetLanguage: z.string().trim().min(2).max(10).default("fr"),
+  layout: z.enum(["preserve", "reflow"]).default("preserve"),
+  align: z.enum(["left", "justify"]).default("left"),
+  hyphenate: booleanParam.default(true),
+  pageSize: z.enum(["source", "a4", "letter"]).default("source"),
+  outputMode: z
+    .enum(["translated", "side-by-side", "interleaved"])
+    .default("translated"),
+  glossaryId: z.string().trim().min(1).max(100).optional(),
+  ocr: booleanParam.default(true),
+  translateHeaders: booleanParam.default(true),
+  useMemory: booleanParam.default(true),
+  formality: z
+    .enum(["default", "more", "less", "prefer_more", "prefer_less"])
+    .optional(),
+  preserveFormatting: booleanParam.optional(),
+  splitSentences: z.enum(["on", "off", "nonewlines"]).optional(),
+  context: z.string().trim().max(4000).optional(),
+  modelType: z
+    .enum([
+      "quality_optimized",
+      "latency_optimized",
+      "prefer_quality_optimized",
+    ])
+    .optional(),
+});
+
+/**
+ * Validate translation options coming from query params or multipart fields.
+ */
+export function parseTranslationRequest(
+  input: unknown,
+): TranslationRequest | TranslationError {
+  const parsed = translationRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Invalid translation request: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+        .join(", ")}`,
+      code: "INVALID_REQUEST",
+    };
+  }
+
+  // Defaults are applied by the schema, so required fields are always set
+  return parsed.data as TranslationRequest;
+}
+
+/**
+ * Read and validate everything a translation needs from an upload request:
+ * the PDF bytes, the options, the provider, the resolved language pair and
+ * the glossary, if one was requested.
+ */
+export async function readTranslationRequest(
+  req: Request,
+): Promise<PipelineInput | { status: number; error: TranslationError }> {
+  // The PDF arrives either as a raw application/pdf body or as the "pdf"
+  // field of a multipart upload, with language options in the fields
+  const pdfData: Buffer | undefined = req.file
+    ? req.file.buffer
+    : Buffer.isBuffer(req.body)
+      ? req.body
+      : undefined;
+
+  // Validate request
+  if (!pdfData || pdfData.length === 0) {
+    return {
+      status: 400,
+      error: { success: false, error: "No PDF data provided in request body" },
+    };
+  }
+
+  // Use the translation provider configured for this server
+  let provider: TranslationProvider;
+  try {
+    provider = getTranslationProvider();
+  } catch (error) {
+    return {
+      status: 500,
+      error: { success: false, error: (error as Error).message },
+    };
+  }
+
+  // Resolve the language pair from query params and/or multipart fields
+  let languages: LanguagesResponse;
+  try {
+    languages = await provider.getSupportedLanguages();
+  } catch (error) {
+    console.error("Failed to load supported languages:", error);
+    return {
+      status: 502,
+      error: {
+        success: false,
+        error: `Could not load supported languages from ${provider.name}`,
+      },
+    };
+  }
+
+  const options = parseTranslationRequest({
+    ...req.query,
+    ...(req.file ? req.body : {}),
+  });
+  if ("error" in options) {
+    return { status: 400, error: options };
+  }
+
+  let glossary: Glossary | undefined;
+  if (options.glossaryId) {
+    glossary = await getGlossaryStore().get(options.glossaryId);
+    if (!glossary) {
+      return {
+        status: 400,
+        error: {
+          success: false,
+          error: `Glossary "${options.glossaryId}" not found`,
+          code: "GLOSSARY_NOT_FOUND",
+        },
+      };
+    }
+  }
+
+  // A glossary implies its source language when none was given
+  const languagePair = resolveLanguagePair(
+    {
+      ...options,
+      sourceLanguage: options.sourceLanguage ?? glossary?.sourceLanguage,
+    },
+    languages,
+  );
+  if ("error" in languagePair) {
+    return { status: 400, error: languagePair };
+  }
+
+  if (
+    glossary &&
+    (baseLanguage(glossary.sourceLanguage) !==
+      baseLanguage(languagePair.sourceLanguage) ||
+      baseLanguage(glossary.targetLanguage) !==
+        baseLanguage(languagePair.targetLanguage))
+  ) {
+    return {
+      status: 400,
+      error: {
+        success: false,
+        error: `Glossary "${glossary.name}" is for ${glossary.sourceLanguage} to ${glossary.targetLanguage}, not ${languagePair.sourceLanguage} to ${languagePair.targetLanguage}`,
+        code: "GLOSSARY_LANGUAGE_MISMATCH",
+      },
+    };
+  }
+
+  return {
+    pdfData,
+    options,
+    languagePair,
+    provider,
+    memory: options.useMemory ? getTranslationMemory() : undefined,
+    glossary,
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { chunkSentences, joinSentences, splitSentences } from "./segmentation";
+
+describe("splitSentences", () => {
+  it("should not break after abbreviations of the source language", () => {
+    expect(
+      splitSentences(
+        "Mr. Smith met Dr. Jones, e.g. at noon. They talked.",
+        "en",
+      ),
+    ).toEqual(["Mr. Smith met Dr. Jones, e.g. at noon.", "They talked."]);
+    expect(
+      splitSentences("Wir haben z. B. Äpfel gekauft. Sie waren rot.", "de"),
+    ).toEqual(["Wir haben z. B. Äpfel gekauft.", "Sie waren rot."]);
+    // German dates are ordinals, not sentence ends
+    expect(splitSentences("Er kam am 3. Mai. Dann ging er.", "de")).toEqual([
+      "Er kam am 3. Mai.",
+      "Dann ging er.",
+    ]);
+  });
+
+  it("should keep list numbers with their item", () => {
+    expect(
+      splitSentences("Steps: 1. Open the lid. 2. Pour the water.", "en"),
+    ).toEqual(["Steps: 1. Open the lid.", "2. Pour the water."]);
+    expect(splitSentences("1. Introduction", null)).toEqual([
+      "1. Introduction",
+    ]);
+  });
+
+  it("should keep closing quotes with their sentence", () => {
+    expect(
+      splitSentences('He said "Stop." Then he left. "Why?" she asked.', "en"),
+    ).toEqual(['He said "Stop."', "Then he left.", '"Why?" she asked.']);
+    expect(
+      splitSentences("« Arrête ! » Il est parti. Voilà tout.", "fr"),
+    ).toEqual(["« Arrête ! »", "Il est parti.", "Voilà tout."]);
+  });
+
+  it("should not break within numbers, initials or lowercase continuations", () => {
+    expect(
+      splitSentences(
+        "Pi is about 3.14... or so. J. R. R. Tolkien wrote it.",
+        null,
+      ),
+    ).toEqual(["Pi is about 3.14... or so.", "J. R. R. Tolkien wrote it."]);
+  });
+
+  it("should break after Chinese and Japanese full stops", () => {
+    expect(
+      splitSentences(
+        "今日は晴れです。明日は雨でしょう！「本当？」はい。",
+        "ja",
+      ),
+    ).toEqual([
+      "今日は晴れです。",
+      "明日は雨でしょう！",
+      "「本当？」",
+      "はい。",
+    ]);
+  });
+});
+
+describe("chunkSentences", () => {
+  it("should pack sentences into chunks under the limit", () => {
+    expect(
+      chunkSentences(["One two.", "Three four.", "Five six seven eight."], 20),
+    ).toEqual(["One two. Three four.", "Five six seven", "eight."]);
+  });
+});
+
+describe("joinSentences", () => {
+  it("should join Chinese and Japanese sentences without spaces", () => {
+    expect(joinSentences(["晴れです。", "雨です。"])).toBe(
+      "晴れです。雨です。",
+    );
+    expect(joinSentences(["It rains.", "It pours."])).toBe(
+      "It rains. It pours.",
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { baseLanguage } from "./languages";
+
+/**
+ * A segmentation rule in the manner of SRX: a position in the text is a
+ * sentence break, or explicitly not one, when the text before it ends with
+ * `before` and the text after it starts with `after`. Rules are tried in
+ * order and the first match decides, so exceptions come before breaks.
+ */
+interface SegmentationRule {
+  break: boolean;
+  before: string;
+  after: string;
+}
+
+// Sentence terminators, including the Arabic question mark and the Devanagari
+// danda, and the quotes and brackets that may close a sentence after them
+const TERMINATORS = "[.!?…؟।]";
+const CLOSERS = "[\"'”’»)\\]]";
+// Quotes and brackets that may open the next sentence
+const OPENERS = "[\"'“‘«(\\[¿¡]";
+// Full stops of Chinese and Japanese, which are not followed by a space
+const CJK_TERMINATORS = "[。！？]";
+const CJK_CLOSERS = "[」』）】”’]";
+// Characters a rule can end on, to skip positions no rule could break at
+const CANDIDATE = /[.!?…؟।。！？"'”’»)\]」』）】]/u;
+
+// Abbreviations that are not followed by a sentence break, per source
+// language and separated by whitespace. Dots inside an abbreviation may be
+// followed by a space, so "z.B" also matches "z. B.".
+const ABBREVIATIONS: Record<string, string> = {
+  en: `Mr Mrs Ms Dr Prof Sr Jr St Mt Gen Gov Rev vs e.g i.e cf Inc Ltd Co Corp
+    No Nos Fig Figs Eq Vol Ch Sec pp p ca approx Jan Feb Mar Apr Jun Jul Aug
+    Sep Sept Oct Nov Dec U.S U.K`,
+  de: `z.B d.h u.a o.ä bzw ca Dr Prof Nr Abb Tab vgl ggf evtl inkl sog Hr Fr S
+    Str Jh Mio Mrd Tel`,
+  fr: "M MM Mme Mlle Dr Pr p.ex cf env chap fig p vol St Ste av.J.-C apr.J.-C",
+  es: "Sr Sra Srta Dr Dra Ud Uds pág núm p.ej EE.UU aprox cap fig",
+  it: "Sig Sig.ra Dott Prof pag ecc fig cap es",
+  pt: "Sr Sra Dr Dra p.ex pág fig cap aprox",
+  nl: "bijv d.w.z o.a m.b.t dhr mevr blz nr ca",
+};
+
+// German ordinals read as dates, like "am 3. Mai", are not sentence ends
+const GERMAN_MONTHS =
+  "Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember";
+
+const COMMON_RULES: SegmentationRule[] = [
+  // Numbered lists: "1. Open the lid. 2. Pour." keeps each marker with its item
+  {
+    break: false,
+    before: `(?:^|[.!?:;]\\s+)\\(?(?:\\d{1,3}|[ivxIVX]{1,4}|[a-zA-Z])\\.`,
+    after: "\\s",
+  },
+  // Initials, as in "J. R. R. Tolkien"
+  {
+    break: false,
+    before: "(?<![\\p{L}\\p{N}])\\p{Lu}\\.",
+    after: "\\s+\\p{Lu}",
+  },
+  // Chinese and Japanese full stops, with any closing quotes after them
+  {
+    break: true,
+    before: `${CJK_TERMINATORS}+${CJK_CLOSERS}*`,
+    after: `(?!${CJK_CLOSERS})[\\s\\S]`,
+  },
+  // Ends of sentences, with any closing quotes, followed by the start of
+  // another one. A lowercase word after a full stop or a quoted question
+  // continues the sentence.
+  {
+    break: true,
+    before: `${TERMINATORS}+(?:\\s?${CLOSERS})*`,
+    after: `\\s+${OPENERS}*[\\p{Lu}\\p{Lo}\\p{N}]`,
+  },
+];
+
+const LANGUAGE_RULES: Record<string, SegmentationRule[]> = {
+  de: [
+    {
+      break: false,
+      before: "(?<![\\p{L}\\p{N}])\\d{1,2}\\.",
+      after: `\\s+(?:${GERMAN_MONTHS})`,
+    },
+  ],
+};
+
+const compiledRules = new Map<string, { break: boolean; regex: RegExp }[]>();
+
+/**
+ * Split text into sentences with the rules of its language, or rules that
+ * suit most languages when it is unknown. Sentences are trimmed, and blank
+ * text has none.
+ */
+export function splitSentences(
+  text: string,
+  language: string | null,
+): string[] {
+  const rules = rulesFor(language);
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (let position = 1; position < text.length; position++) {
+    if (!CANDIDATE.test(text[position - 1])) continue;
+
+    for (const rule of rules) {
+      rule.regex.lastIndex = position;
+      if (!rule.regex.test(text)) continue;
+      if (rule.break) {
+        sentences.push(text.slice(start, position));
+        start = position;
+      }
+      break;
+    }
+  }
+  sentences.push(text.slice(start));
+
+  return sentences
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Join consecutive sentences into chunks of at most `maxLength` characters.
+ * Sentences that are longer on their own are cut at the last space that
+ * fits, or anywhere when there is none.
+ */
+export function chunkSentences(
+  sentences: string[],
+  maxLength: number,
+): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+
+  for (const sentence of sentences.flatMap((sentence) =>
+    cutSentence(sentence, maxLength),
+  )) {
+    const joined = joinSentences([...current, sentence]);
+    if (current.length > 0 && joined.length > maxLength) {
+      chunks.push(joinSentences(current));
+      current = [];
+    }
+    current.push(sentence);
+  }
+  if (current.length > 0) {
+    chunks.push(joinSentences(current));
+  }
+
+  return chunks;
+}
+
+/**
+ * Join sentences back into a paragraph. Sentences ending in Chinese or
+ * Japanese are followed by no space.
+ */
+export function joinSentences(sentences: string[]): string {
+  return sentences.reduce(
+    (text, sentence) =>
+      text.length === 0 ||
+      /[\p{sc=Han}\p{sc=Hira}\p{sc=Kana}\u3000-\u303f\uff01-\uff60]$/u.test(
+        text,
+      )
+        ? text + sentence
+        : `${text} ${sentence}`,
+    "",
+  );
+}
+
+// Helper function to compile the common rules, preceded by the exceptions
+// and rules of a language
+function rulesFor(language: string | null) {
+  const base = language ? baseLanguage(language) : "";
+  let rules = compiledRules.get(base);
+  if (!rules) {
+    const abbreviations = (ABBREVIATIONS[base] ?? "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .flatMap(abbreviationRules);
+    rules = [
+      ...abbreviations,
+      ...(LANGUAGE_RULES[base] ?? []),
+      ...COMMON_RULES,
+    ].map((rule) => ({
+      break: rule.break,
+      // Sticky, so the rule is tested at exactly the position it is given
+      regex: new RegExp(`(?<=${rule.before})(?=${rule.after})`, "uy"),
+    }));
+    compiledRules.set(base, rules);
+  }
+  return rules;
+}
+
+// Helper function to keep a sentence from breaking after an abbreviation,
+// or after any of the dots within it
+function abbreviationRules(abbreviation: string): SegmentationRule[] {
+  const parts = abbreviation.split(".").map(escapeRegExp);
+  return parts.map((_, i) => ({
+    break: false,
+    before: `(?<![\\p{L}\\p{N}])${parts.slice(0, i + 1).join("\\.\\s?")}\\.`,
+    after:
+      i < parts.length - 1
+        ? `\\s?${parts.slice(i + 1).join("\\.\\s?")}\\.`
+        : "\\s",
+  }));
+}
+
+function cutSentence(sentence: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = sentence;
+
+  while (rest.length > maxLength) {
+    let end = rest.lastIndexOf(" ", maxLength);
+    if (end <= 0) {
+      end = maxLength;
+      // Don't cut a character outside the basic plane in half
+      if (/[\ud800-\udbff]/.test(rest[end - 1])) end--;
+    }
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest.length > 0) pieces.push(rest);
+
+  return pieces;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
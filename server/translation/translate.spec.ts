@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createTranslationMemory } from "./memory";
+import { TranslateBatchOptions, TranslationProvider } from "./provider";
+import { translateSegments } from "./translate";
+
+const languagePair = { sourceLanguage: null, targetLanguage: "de" };
+
+function createUppercaseProvider(onBatch: () => void = () => {}) {
+  const batches: string[][] = [];
+  const batchOptions: TranslateBatchOptions[] = [];
+  const provider: TranslationProvider = {
+    name: "Uppercase",
+    async translateBatch(texts, _languagePair, options) {
+      batches.push(texts);
+      batchOptions.push(options);
+      onBatch();
+      return texts.map((text) => text.toUpperCase());
+    },
+    getSupportedLanguages: async () => ({ source: [], target: [] }),
+    getUsage: async () => ({ provider: "Uppercase", characterCount: 0 }),
+  };
+  return { provider, batches, batchOptions };
+}
+
+describe("translateSegments", () => {
+  it("should batch segments and keep their order", async () => {
+    const { provider, batches } = createUppercaseProvider();
+    const segments = Array.from({ length: 120 }, (_, i) => `segment ${i}`);
+
+    const translated = await translateSegments(
+      provider,
+      segments,
+      languagePair,
+    );
+
+    expect(batches.map((batch) => batch.length)).toEqual([50, 50, 20]);
+    expect(translated[0]).toBe("SEGMENT 0");
+    expect(translated[119]).toBe("SEGMENT 119");
+  });
+
+  it("should keep blank segments in place without sending them", async () => {
+    const { provider, batches } = createUppercaseProvider();
+
+    const translated = await translateSegments(
+      provider,
+      ["one", "  ", "two"],
+      languagePair,
+    );
+
+    expect(translated).toEqual(["ONE", "", "TWO"]);
+    expect(batches).toEqual([["one", "two"]]);
+  });
+
+  it("should only send segments the translation memory doesn't hold", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "translate-"));
+    const memory = createTranslationMemory(path.join(directory, "memory.json"));
+    const { provider, batches } = createUppercaseProvider();
+
+    try {
+      await translateSegments(provider, ["one", "two"], languagePair, {
+        memory,
+      });
+      const translated = await translateSegments(
+        provider,
+        ["two", "three"],
+        languagePair,
+        { memory },
+      );
+
+      expect(translated).toEqual(["TWO", "THREE"]);
+      expect(batches).toEqual([["one", "two"], ["three"]]);
+    } finally {
+      await memory.flush();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should send paragraphs whole whatever the provider's sentence splitting", async () => {
+    const { provider, batches, batchOptions } = createUppercaseProvider();
+
+    const translated = await translateSegments(
+      provider,
+      ["Dr. Smith is in. Call him."],
+      { sourceLanguage: "en", targetLanguage: "de" },
+      { textOptions: { splitSentences: "nonewlines" } },
+    );
+
+    expect(translated).toEqual(["DR. SMITH IS IN. CALL HIM."]);
+    expect(batches).toEqual([["Dr. Smith is in. Call him."]]);
+    expect(batchOptions[0]).toMatchObject({ splitSentences: "nonewlines" });
+  });
+
+  it("should only cut segments too long for a request, at sentence ends", async () => {
+    const { provider, batches } = createUppercaseProvider();
+    const sentence = "This sentence is fifty characters long, more or so.";
+    const segment = Array.from({ length: 1000 }, () => sentence).join(" ");
+
+    const [translated] = await translateSegments(
+      provider,
+      ["Short one. Two sentences.", segment],
+      languagePair,
+    );
+
+    expect(translated).toBe("SHORT ONE. TWO SENTENCES.");
+    expect(batches[0][0]).toBe("Short one. Two sentences.");
+    const chunks = batches.flat().slice(1);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.length <= 30000)).toBe(true);
+    expect(chunks.every((chunk) => chunk.endsWith("or so."))).toBe(true);
+  });
+
+  it("should serve repeated sentences of changed paragraphs from the memory", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "translate-"));
+    const memory = createTranslationMemory(path.join(directory, "memory.json"));
+    const { provider, batches } = createUppercaseProvider();
+
+    try {
+      await translateSegments(
+        provider,
+        ["Smith is in. Call him."],
+        languagePair,
+        {
+          memory,
+        },
+      );
+      const translated = await translateSegments(
+        provider,
+        ["Call him. He waits. Then he leaves."],
+        languagePair,
+        { memory },
+      );
+
+      expect(translated).toEqual(["CALL HIM. HE WAITS. THEN HE LEAVES."]);
+      expect(batches).toEqual([
+        ["Smith is in. Call him."],
+        ["He waits. Then he leaves."],
+      ]);
+    } finally {
+      await memory.flush();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should pass text options on and keep them apart in the memory", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "translate-"));
+    const memory = createTranslationMemory(path.join(directory, "memory.json"));
+    const { provider, batches, batchOptions } = createUppercaseProvider();
+
+    try {
+      await translateSegments(provider, ["Hello"], languagePair, {
+        memory,
+        textOptions: { formality: "more", context: "A contract" },
+      });
+      await translateSegments(provider, ["Hello"], languagePair, {
+        memory,
+        textOptions: { formality: "less" },
+      });
+
+      // Informal text can't be served from the formal translation
+      expect(batches).toHaveLength(2);
+      expect(batchOptions[0]).toMatchObject({
+        formality: "more",
+        context: "A contract",
+      });
+      expect(batchOptions[1]).toMatchObject({ formality: "less" });
+    } finally {
+      await memory.flush();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should stop sending requests once aborted", async () => {
+    const controller = new AbortController();
+    const { provider, batches } = createUppercaseProvider(() =>
+      controller.abort(),
+    );
+    const segments = Array.from({ length: 120 }, (_, i) => `segment ${i}`);
+
+    await expect(
+      translateSegments(provider, segments, languagePair, {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow();
+    expect(batches).toHaveLength(1);
+  });
+});
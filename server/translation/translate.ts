@@ -0,0 +1,209 @@
+import {
+  Glossary,
+  TranslationMemoryReport,
+  TranslationTextOptions,
+} from "@shared/api";
+import { glossaryVersion, translateWithGlossary } from "./glossaries";
+import { LanguagePair } from "./languages";
+import { TranslationMemory } from "./memory";
+import { TranslationProvider } from "./provider";
+import { chunkSentences, joinSentences, splitSentences } from "./segmentation";
+
+// Keep requests within the strictest provider limits: DeepL accepts at most
+// 50 texts per request and caps the request size
+const MAX_TEXTS_PER_REQUEST = 50;
+const MAX_CHARACTERS_PER_REQUEST = 30000;
+
+/**
+ * Translate many independent segments, batching them into as few
+ * requests as the provider limits allow. Results keep the input order.
+ *
+ * Segments are sent whole, so the provider translates each paragraph in
+ * context. Only segments too long for a request are cut, at sentence ends
+ * found with the rules of the source language, whatever the provider is
+ * told about splitting sentences.
+ *
+ * With a translation memory, lookups are made sentence by sentence, so a
+ * sentence seen in another paragraph is served from it. Only the runs of
+ * sentences it doesn't hold are sent, and every new translation is stored
+ * sentence by sentence as soon as its request completes.
+ * Glossary terms are applied by the provider when it supports glossaries
+ * natively, and enforced with placeholders otherwise.
+ */
+export async function translateSegments(
+  provider: TranslationProvider,
+  segments: string[],
+  languagePair: LanguagePair,
+  options: {
+    /** Called after each request with the segments translated so far */
+    onBatch?: (translatedCount: number, totalCount: number) => void;
+    /** Stops translating before the next request once aborted */
+    signal?: AbortSignal;
+    memory?: TranslationMemory;
+    glossary?: Glossary;
+    /** Formality and other options passed on to the provider */
+    textOptions?: TranslationTextOptions;
+    /** Called with the memory's matches before anything is translated */
+    onMemoryLookup?: (report: TranslationMemoryReport) => void;
+  } = {},
+): Promise<string[]> {
+  const { glossary, signal, textOptions = {} } = options;
+
+  const sentences = segments.map((text) =>
+    splitSentences(text, languagePair.sourceLanguage),
+  );
+  const scope = {
+    ...languagePair,
+    provider: provider.name,
+    glossary: glossary && glossaryVersion(glossary),
+    textOptions: textOptionsKey(textOptions),
+  };
+  const nativeGlossary =
+    glossary && (await provider.supportsGlossary?.(glossary, languagePair));
+  const translateBatch = (texts: string[]) =>
+    glossary && !nativeGlossary
+      ? translateWithGlossary(texts, glossary, (protectedTexts) =>
+          provider.translateBatch(protectedTexts, languagePair, {
+            ...textOptions,
+            signal,
+          }),
+        )
+      : provider.translateBatch(texts, languagePair, {
+          ...textOptions,
+          signal,
+          glossary,
+        });
+
+  // Stored translation of each sentence, if any
+  const stored = sentences.map((list) =>
+    list.map((): string | undefined => undefined),
+  );
+  if (options.memory) {
+    const located = sentences.flatMap((list, index) =>
+      list.map((text, sentence) => ({ text, index, sentence })),
+    );
+    const { translations, report } = await options.memory.lookup(
+      located.map((sentence) => sentence.text),
+      scope,
+    );
+    options.onMemoryLookup?.(report);
+
+    located.forEach(({ index, sentence }, i) => {
+      stored[index][sentence] = translations[i];
+    });
+  }
+
+  // Each segment's translation is put together from parts: stored sentences,
+  // and runs of the sentences between them, sent as one text each. Blank
+  // segments have no sentences, so they are kept in place but never sent.
+  const pending: { text: string; index: number; part: number }[] = [];
+  const translated = sentences.map((list, index) => {
+    const parts: string[] = [];
+    let run: string[] = [];
+    const sendRun = () => {
+      if (run.length === 0) return;
+      // A segment none of whose sentences is stored is sent as it is
+      const texts =
+        run.length === list.length &&
+        segments[index].length <= MAX_CHARACTERS_PER_REQUEST
+          ? [segments[index]]
+          : chunkSentences(run, MAX_CHARACTERS_PER_REQUEST);
+      for (const text of texts) {
+        pending.push({ text, index, part: parts.length });
+        parts.push("");
+      }
+      run = [];
+    };
+
+    list.forEach((sentence, i) => {
+      if (stored[index][i] === undefined) {
+        run.push(sentence);
+      } else {
+        sendRun();
+        parts.push(stored[index][i]);
+      }
+    });
+    sendRun();
+    return parts;
+  });
+  const totalCount = translated.flat().length;
+
+  let translatedCount = totalCount - pending.length;
+  options.onBatch?.(translatedCount, totalCount);
+
+  for (const batch of createBatches(pending)) {
+    signal?.throwIfAborted();
+
+    const results = await translateBatch(batch.map((segment) => segment.text));
+
+    results.forEach((result, i) => {
+      translated[batch[i].index][batch[i].part] = result;
+    });
+
+    await options.memory?.store(
+      batch.flatMap((segment, i) =>
+        pairSentences(segment.text, results[i], languagePair),
+      ),
+      scope,
+    );
+
+    translatedCount += batch.length;
+    options.onBatch?.(translatedCount, totalCount);
+  }
+
+  return translated.map(joinSentences);
+}
+
+// Helper function to pair the sentences of a text with those of its
+// translation, for the memory. Translations that merge or split sentences
+// can't be paired, and are only stored when their source is one sentence.
+function pairSentences(
+  source: string,
+  target: string,
+  languagePair: LanguagePair,
+): { source: string; target: string }[] {
+  const sources = splitSentences(source, languagePair.sourceLanguage);
+  if (sources.length === 1) return [{ source, target }];
+
+  const targets = splitSentences(target, languagePair.targetLanguage);
+  return sources.length === targets.length
+    ? sources.map((sentence, i) => ({ source: sentence, target: targets[i] }))
+    : [];
+}
+
+// Helper function to tell translations made with different options apart
+// in the translation memory
+function textOptionsKey(textOptions: TranslationTextOptions): string {
+  return Object.entries(textOptions)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+function createBatches<T extends { text: string }>(segments: T[]): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let characters = 0;
+
+  for (const segment of segments) {
+    if (
+      current.length > 0 &&
+      (current.length >= MAX_TEXTS_PER_REQUEST ||
+        characters + segment.text.length > MAX_CHARACTERS_PER_REQUEST)
+    ) {
+      batches.push(current);
+      current = [];
+      characters = 0;
+    }
+
+    current.push(segment);
+    characters += segment.text.length;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
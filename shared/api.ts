@@ -14,9 +14,80 @@ export interface DemoResponse {
 /**
  * PDF Translation API types
  */
-export interface TranslationRequest {
+
+/**
+ * Options shaping the translated text, following DeepL's. Providers
+ * without an equivalent ignore them.
+ */
+export interface TranslationTextOptions {
+  /**
+   * Formal ("more") or informal ("less") language. "prefer_more" and
+   * "prefer_less" fall back to the default for languages without formality.
+   */
+  formality?: "default" | "more" | "less" | "prefer_more" | "prefer_less";
+  /** Keep punctuation and capitalization as in the source */
+  preserveFormatting?: boolean;
+  /**
+   * How to split text into sentences: on punctuation and newlines ("on",
+   * the default), not at all ("off"), or on punctuation only ("nonewlines")
+   */
+  splitSentences?: "on" | "off" | "nonewlines";
+  /**
+   * Background that helps the translation, e.g. what the document is
+   * about. It is not translated itself.
+   */
+  context?: string;
+  /** Trade translation quality for speed */
+  modelType?:
+    | "quality_optimized"
+    | "latency_optimized"
+    | "prefer_quality_optimized";
+}
+
+export interface TranslationRequest extends TranslationTextOptions {
   sourceLanguage?: string;
   targetLanguage: string;
+  /**
+   * "preserve" draws the translation over the original pages at the
+   * original positions, "reflow" flows it into a new plain document
+   */
+  layout?: "preserve" | "reflow";
+  /** Text alignment of the translated paragraphs, defaults to "left" */
+  align?: "left" | "justify";
+  /** Hyphenate long words using the target language's rules, defaults to true */
+  hyphenate?: boolean;
+  /**
+   * Page size of reflowed output: the source document's first page size
+   * (default), or a standard A4 or US Letter page
+   */
+  pageSize?: "source" | "a4" | "letter";
+  /**
+   * "translated" (default) outputs only the translation; "side-by-side"
+   * and "interleaved" output source and translation together, paragraph by
+   * paragraph, in a new document. Bilingual output ignores `layout`.
+   */
+  outputMode?: "translated" | "side-by-side" | "interleaved";
+  /** Glossary whose terms the translation must use, see /api/glossaries */
+  glossaryId?: string;
+  /** Recognize the text of scanned pages with OCR, defaults to true */
+  ocr?: boolean;
+  /**
+   * Translate headers and footers that repeat across pages, once each,
+   * defaults to true. When false they keep their original text.
+   */
+  translateHeaders?: boolean;
+  /**
+   * Serve and store segments through the translation memory, defaults to
+   * true. When false nothing of the document is kept on the server.
+   */
+  useMemory?: boolean;
+}
+
+/** A page whose text was recognized by OCR */
+export interface OcrPageReport {
+  pageNumber: number;
+  /** Mean confidence of the OCR engine, from 0 to 100 */
+  confidence: number;
 }
 
 export interface TranslationResponse {
@@ -25,12 +96,145 @@ export interface TranslationResponse {
   originalPages?: number;
   translatedPages?: number;
   processingTimeMs?: number;
+  /** How much of the document the translation memory already knew */
+  memory?: TranslationMemoryReport;
+  /** Pages without a text layer, read with OCR */
+  ocrPages?: OcrPageReport[];
 }
 
+export type TranslationErrorCode =
+  | "INVALID_REQUEST"
+  | "UNSUPPORTED_SOURCE_LANGUAGE"
+  | "UNSUPPORTED_TARGET_LANGUAGE"
+  | "UNSUPPORTED_LANGUAGE_PAIR"
+  | "CANCELLED"
+  | "GLOSSARY_NOT_FOUND"
+  | "GLOSSARY_LANGUAGE_MISMATCH"
+  | "UNSUPPORTED_FORMALITY"
+  | "JOBS_UNAVAILABLE"
+  | "ENCRYPTED_PDF";
+
 export interface TranslationError {
   success: false;
   error: string;
-  code?: string;
+  code?: TranslationErrorCode;
 }
 
 export type TranslationResult = TranslationResponse | TranslationError;
+
+/**
+ * Response type for /api/languages
+ */
+export interface LanguageOption {
+  code: string;
+  name: string;
+  /** Whether formal and informal translations are available, when known */
+  supportsFormality?: boolean;
+}
+
+export interface LanguagesResponse {
+  source: LanguageOption[];
+  target: LanguageOption[];
+}
+
+/**
+ * Response type for /api/usage
+ */
+export interface UsageResponse {
+  provider: string;
+  /** Characters translated in the current billing period */
+  characterCount: number;
+  /** Character quota of the billing period, when the provider has one */
+  characterLimit?: number;
+}
+
+/**
+ * Translation memory, /api/memory
+ */
+export interface TranslationMemoryMatch {
+  /** Segment that was translated */
+  source: string;
+  /** Most similar segment in the memory and its stored translation */
+  matchedSource: string;
+  matchedTarget: string;
+  /** Word-level similarity between 0 and 1 */
+  score: number;
+}
+
+export interface TranslationMemoryReport {
+  segmentCount: number;
+  /** Segments served from the memory instead of the provider */
+  exactMatches: number;
+  /** Segments close to, but not the same as, a stored one */
+  fuzzyMatchCount: number;
+  /** The closest fuzzy matches, best first */
+  fuzzyMatches: TranslationMemoryMatch[];
+}
+
+export interface TranslationMemoryStats {
+  entryCount: number;
+  lookups: number;
+  exactHits: number;
+  fuzzyHits: number;
+  /** Share of lookups served from the memory */
+  hitRate: number;
+}
+
+/**
+ * Glossaries, /api/glossaries
+ */
+export interface GlossaryEntry {
+  source: string;
+  target: string;
+}
+
+export interface GlossaryInput {
+  name: string;
+  /** Team owning the glossary, for filtering the list */
+  team?: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  entries: GlossaryEntry[];
+}
+
+export interface Glossary extends GlossaryInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Glossary without its entries, as listed by GET /api/glossaries */
+export interface GlossarySummary extends Omit<Glossary, "entries"> {
+  entryCount: number;
+}
+
+/**
+ * Asynchronous translation jobs, /api/jobs
+ */
+export type TranslationJobState =
+  | "queued"
+  | "extracting"
+  | "translating"
+  | "rendering"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface TranslationJobProgress {
+  pageCount: number;
+  pagesExtracted: number;
+  /** Text segments sent to the translation provider */
+  chunkCount: number;
+  chunksTranslated: number;
+  /** Output pages drawn so far; the total is only known once done */
+  pagesRendered: number;
+}
+
+export interface TranslationJobStatus extends TranslationResponse {
+  jobId: string;
+  state: TranslationJobState;
+  progress: TranslationJobProgress;
+  /** Set when the job failed */
+  error?: string;
+  code?: TranslationErrorCode;
+}